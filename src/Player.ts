@@ -2,20 +2,52 @@ import { Client, Collection, GuildResolvable, Snowflake, User, VoiceState, Inten
 import { TypedEmitter as EventEmitter } from "tiny-typed-emitter";
 import { Queue } from "./Structures/Queue";
 import { VoiceUtils } from "./VoiceInterface/VoiceUtils";
-import { PlayerEvents, PlayerOptions, QueryType, SearchOptions, PlayerInitOptions } from "./types/types";
+import {
+    PlayerEvents,
+    PlayerOptions,
+    QueryType,
+    SearchOptions,
+    PlayerInitOptions,
+    QueueSnapshot,
+    ExtractorModelData,
+    ExtractorUseOptions,
+    SearchResult,
+    AutoplayProvider,
+    LocalLibraryEntry
+} from "./types/types";
 import Track from "./Structures/Track";
 import { QueryResolver } from "./utils/QueryResolver";
-import YouTube from "youtube-sr";
+import YouTube, { Video } from "youtube-sr";
 import { Util } from "./utils/Util";
 import Spotify from "spotify-url-info";
 import { PlayerError, ErrorStatusCode } from "./Structures/PlayerError";
-import { getInfo as ytdlGetInfo } from "ytdl-core";
-import { Client as SoundCloud, SearchResult as SoundCloudSearchResult } from "soundcloud-scraper";
+import { Client as SoundCloud } from "soundcloud-scraper";
 import { Playlist } from "./Structures/Playlist";
 import { ExtractorModel } from "./Structures/ExtractorModel";
 import { generateDependencyReport } from "@discordjs/voice";
+import { Radio } from "./utils/Radio";
+import { LocalFiles } from "./utils/LocalFiles";
+import { PlaylistFiles } from "./utils/PlaylistFiles";
+import { SpotifyAPI } from "./utils/SpotifyAPI";
+import { Deezer } from "./utils/Deezer";
+import { AppleMusic } from "./utils/AppleMusic";
+import { SoundCloudAPI } from "./utils/SoundCloudAPI";
+import { SearchRanker } from "./utils/SearchRanker";
+import { LocalLibrary } from "./Structures/LocalLibrary";
+import { TrackBridge } from "./Structures/TrackBridge";
+import { PlayerCache } from "./Structures/PlayerCache";
+import { YouTubeAutoplay } from "./Structures/YouTubeAutoplay";
+import { promises as fs } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
 
 const soundcloud = new SoundCloud();
+// the amount of results fetched at once by paginated searches
+const SEARCH_PAGE_SIZE = 20;
+// the maximum amount of pages fetched by a paginated search looking for results matching its filters
+const SEARCH_MAX_PAGES = 5;
+// query types served with audio content types, only handled by the extractors registered for them
+const BUILT_IN_TYPES: QueryType[] = [QueryType.RADIO, QueryType.PLAYLIST_FILE];
 
 class Player extends EventEmitter<PlayerEvents> {
     public readonly client: Client;
@@ -24,11 +56,20 @@ class Player extends EventEmitter<PlayerEvents> {
         ytdlOptions: {
             highWaterMark: 1 << 25
         },
-        connectionTimeout: 20000
+        connectionTimeout: 20000,
+        storageWriteDelay: 1000
     };
     public readonly queues = new Collection<Snowflake, Queue>();
     public readonly voiceUtils = new VoiceUtils();
     public readonly extractors = new Collection<string, ExtractorModel>();
+    public readonly library: LocalLibrary = null;
+    public readonly bridge: TrackBridge;
+    public readonly cache: PlayerCache;
+    public readonly autoplay: AutoplayProvider;
+    private _storageTimeouts = new Collection<Snowflake, NodeJS.Timeout>();
+    // queues which failed to restore, their snapshots are kept in the storage
+    private _unsavedQueues = new WeakSet<Queue>();
+    private _voiceStateListener = this._handleVoiceState.bind(this);
 
     /**
      * Creates new Discord Player
@@ -54,7 +95,35 @@ class Player extends EventEmitter<PlayerEvents> {
          */
         this.options = Object.assign(this.options, options);
 
-        this.client.on("voiceStateUpdate", this._handleVoiceState.bind(this));
+        this.client.on("voiceStateUpdate", this._voiceStateListener);
+
+        /**
+         * The bridge matching Spotify, Deezer and Apple Music tracks with playable ones
+         * @type {TrackBridge}
+         */
+        this.bridge = new TrackBridge(this, this.options.bridge);
+
+        /**
+         * The cache of search results and YouTube video info
+         * @type {PlayerCache}
+         */
+        this.cache = new PlayerCache(this, this.options.cache);
+
+        /**
+         * The provider of the tracks played in autoplay mode
+         * @type {AutoplayProvider}
+         */
+        this.autoplay = this.options.autoplay ?? new YouTubeAutoplay(this);
+
+        if (this.options.library) {
+            /**
+             * The local library
+             * @type {LocalLibrary}
+             */
+            this.library = new LocalLibrary(this, this.options.library);
+            this.library.on("update", (changed, removed) => this._handleLibraryUpdate(changed, removed));
+            void this.library.init();
+        }
 
         if (this.options?.autoRegisterExtractor) {
             let nv: any; // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -125,6 +194,33 @@ class Player extends EventEmitter<PlayerEvents> {
         }
     }
 
+    /**
+     * Updates the queued tracks of the files re-indexed by the library, and removes the ones of the deleted files
+     * @param {LocalLibraryEntry[]} changed The new and modified entries
+     * @param {string[]} removed The paths of the deleted files
+     * @returns {void}
+     * @private
+     */
+    private _handleLibraryUpdate(changed: LocalLibraryEntry[], removed: string[]): void {
+        const entries = new Map(changed.map((m) => [m.path, m]));
+        const deleted = new Set(removed);
+        const pathOf = (track: Track) => (track.raw.source === "local" ? (track.raw as { path?: string }).path : null);
+
+        for (const queue of this.queues.values()) {
+            for (const track of queue.tracks.filter((m) => deleted.has(pathOf(m)))) queue.remove(track);
+
+            for (const track of new Set([queue.playing ? queue.current : null, ...queue.tracks])) {
+                const entry = track && entries.get(pathOf(track));
+                if (!entry) continue;
+
+                const updated = LocalFiles.createTrack(this, entry);
+                Object.assign(track, { title: updated.title, author: updated.author, duration: updated.duration });
+                Object.assign(track.raw, updated.raw);
+                this.emit("trackMetadataUpdate", queue, track);
+            }
+        }
+    }
+
     /**
      * Creates a queue for a guild if not available, else returns existing queue
      * @param {GuildResolvable} guild The guild
@@ -176,10 +272,99 @@ class Player extends EventEmitter<PlayerEvents> {
     }
 
     /**
-     * @typedef {object} SearchResult
-     * @property {Playlist} [playlist] The playlist (if any)
-     * @property {Track[]} tracks The tracks
+     * Creates snapshots of every queue managed by this player
+     * @returns {QueueSnapshot[]}
      */
+    snapshot() {
+        return this.queues.map((queue) => queue.snapshot());
+    }
+
+    /**
+     * Restores queues from snapshots created by `Player.snapshot()`. Guilds which are unavailable or already have a queue are skipped.
+     * The queues failing to restore are removed, without deleting their snapshots from the storage so they can be restored again.
+     * @param {QueueSnapshot|QueueSnapshot[]} [snapshots] The snapshots to restore, loaded from the storage adapter if omitted
+     * @returns {Promise<Queue[]>}
+     */
+    async restore(snapshots?: QueueSnapshot | QueueSnapshot[]) {
+        const restored: Queue[] = [];
+
+        if (!snapshots) {
+            const storage = this.options.storage;
+            if (!storage) throw new PlayerError("No snapshots were provided and no storage adapter is configured", ErrorStatusCode.INVALID_ARG_TYPE);
+            const guilds = await storage.list();
+            snapshots = (await Promise.all(guilds.map((guild) => storage.get(guild)))).filter((m) => !!m);
+        }
+
+        for (const snapshot of Array.isArray(snapshots) ? snapshots : [snapshots]) {
+            const guild = this.client.guilds.resolve(snapshot.guild);
+            if (!guild || this.queues.has(guild.id)) continue;
+
+            const metadata = typeof this.options.deserializeMetadata === "function" && snapshot.metadata != null ? await this.options.deserializeMetadata(snapshot.metadata, guild) : snapshot.metadata;
+            const queue = this.createQueue(guild, { ...snapshot.options, metadata });
+
+            try {
+                await queue.restore(snapshot);
+                restored.push(queue);
+            } catch (e) {
+                this.emit("error", queue, e as Error);
+                this._unsavedQueues.add(queue);
+                if (!queue.destroyed) queue.destroy();
+            }
+        }
+
+        return restored;
+    }
+
+    /**
+     * Saves the snapshot of the given queue to the storage adapter (if any). Writes are debounced by `PlayerInitOptions.storageWriteDelay` unless `immediate` is set.
+     * Destroyed queues are deleted from the storage.
+     * @param {Queue} queue The queue to save
+     * @param {boolean} [immediate=false] If it should write right away
+     * @returns {Promise<void>}
+     */
+    async saveQueue(queue: Queue, immediate = false) {
+        const storage = this.options.storage;
+        if (!storage) return;
+
+        const guildId = queue.guild.id;
+        const pending = this._storageTimeouts.get(guildId);
+        if (pending) {
+            clearTimeout(pending);
+            this._storageTimeouts.delete(guildId);
+        }
+
+        if (this._unsavedQueues.has(queue)) return;
+        if (!immediate) {
+            const timeout = setTimeout(() => void this.saveQueue(queue, true), this.options.storageWriteDelay ?? 1000).unref();
+            this._storageTimeouts.set(guildId, timeout);
+            return;
+        }
+
+        try {
+            if (queue.destroyed) await storage.delete(guildId);
+            else await storage.set(guildId, queue.snapshot());
+        } catch (e) {
+            this.emit("error", queue, e as Error);
+        }
+    }
+
+    /**
+     * Stops the background work of the player so the process can exit: the pending storage writes are written right away,
+     * the local library stops watching its directories and voice state updates are no longer handled.
+     * The queues are kept (and so are their snapshots in the storage), destroy them beforehand to leave the voice channels.
+     * @returns {Promise<void>}
+     */
+    async destroy() {
+        this.client.off("voiceStateUpdate", this._voiceStateListener);
+        this.library?.unwatch();
+
+        const pending = this.queues.filter((queue) => this._storageTimeouts.has(queue.guild.id));
+        for (const timeout of this._storageTimeouts.values()) clearTimeout(timeout);
+        this._storageTimeouts.clear();
+
+        await Promise.all(pending.map((queue) => this.saveQueue(queue, true)));
+    }
+
     /**
      * Search tracks
      * @param {string|Track} query The search query
@@ -191,40 +376,41 @@ class Player extends EventEmitter<PlayerEvents> {
         if (!options) throw new PlayerError("DiscordPlayer#search needs search options!", ErrorStatusCode.INVALID_ARG_TYPE);
         options.requestedBy = this.client.users.resolve(options.requestedBy);
         if (!("searchEngine" in options)) options.searchEngine = QueryType.AUTO;
+        if (options.searchEngine === "all" || Array.isArray(options.searchEngine)) return this._searchAll(query, options);
+
+        // queries such as "/help" are only paths when local playback is enabled
+        const qt = (options.searchEngine === QueryType.AUTO ? QueryResolver.resolve(query, !!this.options.localRoot) : options.searchEngine) as QueryType;
 
+        // sorted by priority
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         for (const [_, extractor] of this.extractors) {
             if (options.blockExtractor) break;
-            if (!extractor.validate(query)) continue;
-            const data = await extractor.handle(query);
-            if (data && data.data.length) {
-                const playlist = !data.playlist
-                    ? null
-                    : new Playlist(this, {
-                          ...data.playlist,
-                          tracks: []
-                      });
-
-                const tracks = data.data.map(
-                    (m) =>
-                        new Track(this, {
-                            ...m,
-                            requestedBy: options.requestedBy as User,
-                            duration: Util.buildTimeCode(Util.parseMS(m.duration)),
-                            playlist: playlist
-                        })
-                );
-
-                if (playlist) playlist.tracks = tracks;
-
-                return { playlist: playlist, tracks: tracks };
+            if (BUILT_IN_TYPES.includes(qt) ? !extractor.queryTypes?.includes(qt) : !extractor.supports(qt)) continue;
+
+            try {
+                if (!extractor.validate(query)) continue;
+                const data = await extractor.handle(query);
+                if (data && data.data.length) return this._createExtractorResult(extractor, data, options.requestedBy as User);
+            } catch (e) {
+                this.emit("extractorError", extractor, e as Error);
             }
         }
 
-        const qt = options.searchEngine === QueryType.AUTO ? QueryResolver.resolve(query) : options.searchEngine;
+        return this.cache.search(query, qt, options, () => this._search(query as string, qt, options));
+    }
+
+    /**
+     * Searches tracks with the given engine
+     * @param {string} query The search query
+     * @param {QueryType} qt The search engine
+     * @param {SearchOptions} options The search options
+     * @returns {Promise<SearchResult>}
+     * @private
+     */
+    private async _search(query: string, qt: QueryType, options: SearchOptions): Promise<SearchResult> {
         switch (qt) {
             case QueryType.YOUTUBE_VIDEO: {
-                const info = await ytdlGetInfo(query).catch(Util.noop);
+                const info = await this.cache.getInfo(query).catch(Util.noop);
                 if (!info) return { playlist: null, tracks: [] };
 
                 const track = new Track(this, {
@@ -237,62 +423,69 @@ class Player extends EventEmitter<PlayerEvents> {
                     views: parseInt(info.videoDetails.viewCount.replace(/[^0-9]/g, "")) || 0,
                     duration: Util.buildTimeCode(Util.parseMS(parseInt(info.videoDetails.lengthSeconds) * 1000)),
                     source: "youtube",
+                    live: !!info.videoDetails.liveBroadcastDetails?.isLiveNow,
                     raw: info
                 });
 
                 return { playlist: null, tracks: [track] };
             }
             case QueryType.YOUTUBE_SEARCH: {
-                const videos = await YouTube.search(query, {
-                    type: "video"
-                }).catch(Util.noop);
-                if (!videos) return { playlist: null, tracks: [] };
-
-                const tracks = videos.map((m) => {
-                    (m as any).source = "youtube"; // eslint-disable-line @typescript-eslint/no-explicit-any
-                    return new Track(this, {
-                        title: m.title,
-                        description: m.description,
-                        author: m.channel?.name,
-                        url: m.url,
-                        requestedBy: options.requestedBy as User,
-                        thumbnail: m.thumbnail?.displayThumbnailURL("maxresdefault"),
-                        views: m.views,
-                        duration: m.durationFormatted,
-                        source: "youtube",
-                        raw: m
+                // the search returns a single page of results
+                let fetched = false;
+                return this._paginate(async (offset) => {
+                    if (fetched) return [];
+                    fetched = true;
+
+                    const videos = await YouTube.search(query, {
+                        type: "video"
                     });
-                });
 
-                return { playlist: null, tracks };
+                    return videos.slice(offset).map((m) => {
+                        (m as any).source = "youtube"; // eslint-disable-line @typescript-eslint/no-explicit-any
+                        return new Track(this, {
+                            title: m.title,
+                            description: m.description,
+                            author: m.channel?.name,
+                            url: m.url,
+                            requestedBy: options.requestedBy as User,
+                            thumbnail: m.thumbnail?.displayThumbnailURL("maxresdefault"),
+                            views: m.views,
+                            duration: m.durationFormatted,
+                            source: "youtube",
+                            live: m.live,
+                            raw: m
+                        });
+                    });
+                }, options);
             }
             case QueryType.SOUNDCLOUD_TRACK:
             case QueryType.SOUNDCLOUD_SEARCH: {
-                const result: SoundCloudSearchResult[] = QueryResolver.resolve(query) === QueryType.SOUNDCLOUD_TRACK ? [{ url: query }] : await soundcloud.search(query, "track").catch(() => []);
-                if (!result || !result.length) return { playlist: null, tracks: [] };
-                const res: Track[] = [];
+                if (QueryResolver.resolve(query) !== QueryType.SOUNDCLOUD_TRACK) {
+                    // the results of the API already contain the track data, unlike the ones of the scraper
+                    const pageSize = Math.min(SoundCloudAPI.maxTracks, Math.max(SEARCH_PAGE_SIZE, (options.offset ?? 0) + (options.limit ?? 0)));
+                    return this._paginate(
+                        async (offset) => (await SoundCloudAPI.searchTracks(query, pageSize, offset)).map((m) => SoundCloudAPI.createTrack(this, m, options.requestedBy as User)),
+                        options
+                    );
+                }
 
-                for (const r of result) {
-                    const trackInfo = await soundcloud.getSongInfo(r.url).catch(Util.noop);
-                    if (!trackInfo) continue;
+                const trackInfo = await soundcloud.getSongInfo(query).catch(Util.noop);
+                if (!trackInfo) return { playlist: null, tracks: [] };
 
-                    const track = new Track(this, {
-                        title: trackInfo.title,
-                        url: trackInfo.url,
-                        duration: Util.buildTimeCode(Util.parseMS(trackInfo.duration)),
-                        description: trackInfo.description,
-                        thumbnail: trackInfo.thumbnail,
-                        views: trackInfo.playCount,
-                        author: trackInfo.author.name,
-                        requestedBy: options.requestedBy,
-                        source: "soundcloud",
-                        engine: trackInfo
-                    });
-
-                    res.push(track);
-                }
+                const track = new Track(this, {
+                    title: trackInfo.title,
+                    url: trackInfo.url,
+                    duration: Util.buildTimeCode(Util.parseMS(trackInfo.duration)),
+                    description: trackInfo.description,
+                    thumbnail: trackInfo.thumbnail,
+                    views: trackInfo.playCount,
+                    author: trackInfo.author.name,
+                    requestedBy: options.requestedBy as User,
+                    source: "soundcloud",
+                    engine: trackInfo
+                });
 
-                return { playlist: null, tracks: res };
+                return { playlist: null, tracks: [track] };
             }
             case QueryType.SPOTIFY_SONG: {
                 const spotifyData = await Spotify.getData(query).catch(Util.noop);
@@ -308,7 +501,7 @@ class Player extends EventEmitter<PlayerEvents> {
                             : "https://www.scdn.co/i/_global/twitter_card-default.jpg",
                     duration: Util.buildTimeCode(Util.parseMS(spotifyData.duration_ms)),
                     views: 0,
-                    requestedBy: options.requestedBy,
+                    requestedBy: options.requestedBy as User,
                     source: "spotify"
                 });
 
@@ -341,46 +534,137 @@ class Player extends EventEmitter<PlayerEvents> {
                     rawPlaylist: spotifyPlaylist
                 });
 
-                if (spotifyPlaylist.type !== "playlist") {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    playlist.tracks = spotifyPlaylist.tracks.items.map((m: any) => {
-                        const data = new Track(this, {
-                            title: m.name ?? "",
-                            description: m.description ?? "",
-                            author: m.artists[0]?.name ?? "Unknown Artist",
-                            url: m.external_urls?.spotify ?? query,
-                            thumbnail: spotifyPlaylist.images[0]?.url ?? "https://www.scdn.co/i/_global/twitter_card-default.jpg",
-                            duration: Util.buildTimeCode(Util.parseMS(m.duration_ms)),
-                            views: 0,
-                            requestedBy: options.requestedBy as User,
-                            playlist,
-                            source: "spotify"
-                        });
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const createTrack = (m: any) =>
+                    new Track(this, {
+                        title: m.name ?? "",
+                        description: m.description ?? "",
+                        author: m.artists[0]?.name ?? "Unknown Artist",
+                        url: m.external_urls?.spotify ?? query,
+                        thumbnail: m.album?.images[0]?.url ?? spotifyPlaylist.images[0]?.url ?? "https://www.scdn.co/i/_global/twitter_card-default.jpg",
+                        duration: Util.buildTimeCode(Util.parseMS(m.duration_ms)),
+                        views: 0,
+                        requestedBy: options.requestedBy as User,
+                        playlist,
+                        source: "spotify"
+                    });
+                // playlist items wrap their track, which is missing for unavailable ones
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const createTracks = (items: any[]) => (spotifyPlaylist.type !== "playlist" ? items : items.map((m) => m.track)).filter((m) => !!m).map(createTrack);
 
-                        return data;
-                    }) as Track[];
-                } else {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    playlist.tracks = spotifyPlaylist.tracks.items.map((m: any) => {
-                        const data = new Track(this, {
-                            title: m.track.name ?? "",
-                            description: m.track.description ?? "",
-                            author: m.track.artists[0]?.name ?? "Unknown Artist",
-                            url: m.track.external_urls?.spotify ?? query,
-                            thumbnail: m.track.album?.images[0]?.url ?? "https://www.scdn.co/i/_global/twitter_card-default.jpg",
-                            duration: Util.buildTimeCode(Util.parseMS(m.track.duration_ms)),
-                            views: 0,
-                            requestedBy: options.requestedBy as User,
-                            playlist,
-                            source: "spotify"
-                        });
+                const items = spotifyPlaylist.tracks.items ?? [];
+                playlist.tracks = createTracks(items);
+
+                // the embed only contains the first page of tracks
+                const total: number = spotifyPlaylist.tracks.total ?? items.length;
+                let next: string = spotifyPlaylist.tracks.next ?? (total > items.length ? SpotifyAPI.getTracksURL(spotifyPlaylist.type, spotifyPlaylist.id, items.length) : null);
+                playlist.setLoader(async () => {
+                    if (!next) return [];
+                    const page = await SpotifyAPI.getPage(next);
+                    next = page.next;
+
+                    return createTracks(page.items);
+                }, total);
+                if (!options.lazy) await playlist.load().catch(Util.noop);
 
-                        return data;
-                    }) as Track[];
+                return { playlist: playlist, tracks: playlist.tracks };
+            }
+            case QueryType.DEEZER_SONG:
+            case QueryType.DEEZER_ALBUM:
+            case QueryType.DEEZER_PLAYLIST:
+            case QueryType.APPLE_MUSIC_SONG:
+            case QueryType.APPLE_MUSIC_ALBUM:
+            case QueryType.APPLE_MUSIC_PLAYLIST: {
+                const service = Deezer.parseURL(query) ? Deezer : AppleMusic;
+                const { playlist, tracks } = await service.resolve(this, query, options.requestedBy as User).catch(() => ({ playlist: null as Playlist, tracks: [] as Track[] }));
+                if (playlist && !options.lazy) await playlist.load().catch(Util.noop);
+
+                return { playlist: playlist, tracks: playlist?.tracks ?? tracks };
+            }
+            // urls no extractor handled are probed for an internet radio
+            case QueryType.RADIO:
+            case QueryType.ARBITRARY: {
+                const station = await Radio.probe(query).catch(Util.noop);
+                if (!station) return { playlist: null, tracks: [] };
+
+                return { playlist: null, tracks: [Radio.createTrack(this, station, options.requestedBy as User)] };
+            }
+            case QueryType.PLAYLIST_FILE: {
+                const local = LocalFiles.isLocal(query);
+                const file = local ? await LocalFiles.resolve(query, this.options.localRoot) : null;
+                const content = local
+                    ? await fs.readFile(file, "utf-8")
+                    : await Util.request(query)
+                          .then((res) => Util.readBody(res))
+                          .catch(Util.noop);
+                // HLS playlists are the segments of a single stream
+                if (!content || PlaylistFiles.isHLS(content)) return { playlist: null, tracks: [] };
+
+                const format = PlaylistFiles.detectFormat(content);
+                const entries = PlaylistFiles.parse(content, format).map((m) => PlaylistFiles.resolveLocation(m, file ?? query));
+                if (!entries.length) return { playlist: null, tracks: [] };
+
+                // internet radios publish their stream urls as M3U/PLS playlists without track info
+                if (!local && format !== "xspf" && entries.every((m) => /^https?:\/\//i.test(m.location) && !m.duration)) {
+                    const station = await Radio.probe(entries[0].location).catch(Util.noop);
+                    if (station) return { playlist: null, tracks: [Radio.createTrack(this, station, options.requestedBy as User)] };
                 }
 
+                const name = path.basename(file ?? query.split(/[?#]/)[0]);
+                const playlist = new Playlist(this, {
+                    title: PlaylistFiles.getTitle(content, format) || path.basename(name, path.extname(name)),
+                    description: "",
+                    thumbnail: "",
+                    type: "playlist",
+                    source: local ? "local" : "arbitrary",
+                    author: {
+                        name: "",
+                        url: ""
+                    },
+                    tracks: [],
+                    id: file ?? query,
+                    url: local ? pathToFileURL(file).href : query
+                });
+                playlist.tracks = entries.map((m) => PlaylistFiles.createTrack(this, m, options.requestedBy as User, playlist));
+
                 return { playlist: playlist, tracks: playlist.tracks };
             }
+            case QueryType.LOCAL: {
+                const file = await LocalFiles.resolve(query, this.options.localRoot);
+                const stats = await fs.stat(file);
+                const files = stats.isDirectory() ? await LocalFiles.scanDirectory(file) : [file];
+
+                const playlist = !stats.isDirectory()
+                    ? null
+                    : new Playlist(this, {
+                          title: path.basename(file),
+                          description: "",
+                          thumbnail: "",
+                          type: "playlist",
+                          source: "local",
+                          author: {
+                              name: "",
+                              url: ""
+                          },
+                          tracks: [],
+                          id: file,
+                          url: pathToFileURL(file).href
+                      });
+
+                const tracks: Track[] = [];
+                for (const m of files) {
+                    const info = await LocalFiles.getInfo(m).catch(Util.noop);
+                    if (info) tracks.push(LocalFiles.createTrack(this, info, options.requestedBy as User, playlist));
+                }
+
+                if (playlist) playlist.tracks = tracks;
+
+                return { playlist: playlist, tracks: tracks };
+            }
+            case QueryType.LOCAL_SEARCH: {
+                if (!this.library) return { playlist: null, tracks: [] };
+                return await this.library.search(query, options.requestedBy as User);
+            }
             case QueryType.SOUNDCLOUD_PLAYLIST: {
                 const data = await soundcloud.getPlaylist(query).catch(Util.noop);
                 if (!data) return { playlist: null, tracks: [] };
@@ -410,7 +694,7 @@ class Player extends EventEmitter<PlayerEvents> {
                         thumbnail: song.thumbnail,
                         duration: Util.buildTimeCode(Util.parseMS(song.duration)),
                         views: song.playCount ?? 0,
-                        requestedBy: options.requestedBy,
+                        requestedBy: options.requestedBy as User,
                         playlist: res,
                         source: "soundcloud",
                         engine: song
@@ -418,14 +702,22 @@ class Player extends EventEmitter<PlayerEvents> {
                     res.tracks.push(track);
                 }
 
+                // the playlist page only contains the first tracks, the others are listed by id
+                let ids: number[] = null;
+                res.setLoader(async () => {
+                    ids ??= (await SoundCloudAPI.getPlaylistTrackIds(data.url)).filter((id) => !data.tracks.some((m) => `${m.id}` === `${id}`));
+                    const songs = await SoundCloudAPI.getTracks(ids.splice(0, SoundCloudAPI.maxTracks));
+
+                    return songs.map((song) => SoundCloudAPI.createTrack(this, song, options.requestedBy as User, res));
+                }, data.trackCount || undefined);
+                if (!options.lazy) await res.load().catch(Util.noop);
+
                 return { playlist: res, tracks: res.tracks };
             }
             case QueryType.YOUTUBE_PLAYLIST: {
                 const ytpl = await YouTube.getPlaylist(query).catch(Util.noop);
                 if (!ytpl) return { playlist: null, tracks: [] };
 
-                await ytpl.fetch().catch(Util.noop);
-
                 const playlist: Playlist = new Playlist(this, {
                     title: ytpl.title,
                     thumbnail: ytpl.thumbnail as unknown as string,
@@ -442,22 +734,25 @@ class Player extends EventEmitter<PlayerEvents> {
                     rawPlaylist: ytpl
                 });
 
-                playlist.tracks = ytpl.videos.map(
-                    (video) =>
-                        new Track(this, {
-                            title: video.title,
-                            description: video.description,
-                            author: video.channel?.name,
-                            url: video.url,
-                            requestedBy: options.requestedBy as User,
-                            thumbnail: video.thumbnail.url,
-                            views: video.views,
-                            duration: video.durationFormatted,
-                            raw: video,
-                            playlist: playlist,
-                            source: "youtube"
-                        })
-                );
+                const createTrack = (video: Video) =>
+                    new Track(this, {
+                        title: video.title,
+                        description: video.description,
+                        author: video.channel?.name,
+                        url: video.url,
+                        requestedBy: options.requestedBy as User,
+                        thumbnail: video.thumbnail.url,
+                        views: video.views,
+                        duration: video.durationFormatted,
+                        raw: video,
+                        playlist: playlist,
+                        source: "youtube",
+                        live: video.live
+                    });
+
+                playlist.tracks = ytpl.videos.map(createTrack);
+                playlist.setLoader(async () => (await ytpl.next()).map(createTrack), ytpl.videoCount);
+                if (!options.lazy) await playlist.load().catch(Util.noop);
 
                 return { playlist: playlist, tracks: playlist.tracks };
             }
@@ -467,33 +762,184 @@ class Player extends EventEmitter<PlayerEvents> {
     }
 
     /**
-     * Registers extractor
+     * Searches several engines at once, merging their results without the near-identical ones, sorted by score
+     * @param {string} query The search query
+     * @param {SearchOptions} options The search options
+     * @returns {Promise<SearchResult>}
+     * @private
+     */
+    private async _searchAll(query: string, options: SearchOptions): Promise<{ playlist: Playlist; tracks: Track[] }> {
+        const qt = QueryResolver.resolve(query, !!this.options.localRoot);
+        const names = options.searchEngine === "all" ? ["youtube", "soundcloud", ...this.extractors.filter((m) => m.supports(qt)).keys()] : [...new Set(options.searchEngine as string[])];
+        const unknown = names.find((m) => !["youtube", "soundcloud"].includes(m) && !this.extractors.has(m));
+        if (unknown) throw new PlayerError(`Unknown search engine "${unknown}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+
+        const requestedBy = options.requestedBy as User;
+        const searchEngine = async (name: string): Promise<Track[]> => {
+            if (name === "youtube") return (await this.search(query, { requestedBy, searchEngine: QueryType.YOUTUBE_SEARCH, blockExtractor: true })).tracks;
+            if (name === "soundcloud") return (await SoundCloudAPI.searchTracks(query)).map((m) => SoundCloudAPI.createTrack(this, m, requestedBy));
+
+            const extractor = this.extractors.get(name);
+            const data = await extractor.search(query).catch((err: Error) => void this.emit("extractorError", extractor, err));
+            return data?.data.length ? this._createExtractorResult(extractor, data, requestedBy).tracks : [];
+        };
+
+        const timeout = options.engineTimeout ?? 5000;
+        const scorer = options.scorer ?? SearchRanker.score;
+        const results = await Promise.all(
+            names.map((name) =>
+                // slow engines are given up rather than delaying the others
+                Promise.race([searchEngine(name), Util.wait(timeout).then(() => [] as Track[])])
+                    .catch(() => [] as Track[])
+                    .then((tracks) =>
+                        tracks.map((track, rank) => {
+                            track.searchEngine = name;
+                            return { track, score: scorer(track, query, rank) };
+                        })
+                    )
+            )
+        );
+
+        const tracks = results
+            .reduce((acc, m) => [...acc, ...m], [])
+            .sort((a, b) => b.score - a.score)
+            .map((m) => m.track);
+
+        const offset = options.offset ?? 0;
+        const matching = SearchRanker.dedupe(tracks).filter((m) => this._matchesSearch(m, options));
+
+        return { playlist: null as Playlist, tracks: matching.slice(offset, options.limit ? offset + options.limit : undefined) };
+    }
+
+    /**
+     * Fetches the pages of a search until enough results match the search filters, skipping `offset` of them after the `continuation`.
+     * Only the first page is fetched when no limit is set.
+     * @param {Function} fetchPage Fetches the results following the given amount of results, an empty page ending the search
+     * @param {SearchOptions} options The search options
+     * @returns {Promise<SearchResult>}
+     * @private
+     */
+    private async _paginate(fetchPage: (offset: number) => Promise<Track[]>, options: SearchOptions) {
+        // the continuation is the position of the next unread result, regardless of the filters
+        let position = parseInt(options.continuation) || 0;
+        let skip = options.offset ?? 0;
+        const limit = options.limit || Infinity;
+        const tracks: Track[] = [];
+
+        for (let page = 0; page < (options.limit ? SEARCH_MAX_PAGES : 1) && tracks.length < limit; page++) {
+            const results = await fetchPage(position).catch(() => [] as Track[]);
+            if (!results.length) {
+                position = null;
+                break;
+            }
+
+            for (const track of results) {
+                position++;
+                if (!this._matchesSearch(track, options)) continue;
+                if (skip > 0) {
+                    skip--;
+                    continue;
+                }
+
+                tracks.push(track);
+                if (tracks.length >= limit) break;
+            }
+        }
+
+        return { playlist: null as Playlist, tracks, continuation: position === null ? null : `${position}` };
+    }
+
+    /**
+     * Checks if a track matches the filters of a search
+     * @param {Track} track The track
+     * @param {SearchOptions} options The search options
+     * @returns {boolean}
+     * @private
+     */
+    private _matchesSearch(track: Track, options: SearchOptions) {
+        // live streams have no duration
+        if (track.live) return !options.excludeLive && (typeof options.filter !== "function" || !!options.filter(track));
+        if (options.minDuration && track.durationMS < options.minDuration) return false;
+        if (options.maxDuration && track.durationMS > options.maxDuration) return false;
+
+        return typeof options.filter !== "function" || !!options.filter(track);
+    }
+
+    /**
+     * Creates the search result of the data returned by an extractor
+     * @param {ExtractorModel} extractor The extractor
+     * @param {ExtractorModelData} data The extractor data
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {SearchResult}
+     * @private
+     */
+    private _createExtractorResult(extractor: ExtractorModel, data: ExtractorModelData, requestedBy?: User) {
+        const playlist = !data.playlist
+            ? null
+            : new Playlist(this, {
+                  ...data.playlist,
+                  tracks: []
+              });
+
+        const tracks = data.data.map(
+            (m) =>
+                new Track(this, {
+                    ...m,
+                    requestedBy,
+                    duration: Util.buildTimeCode(Util.parseMS(m.duration)),
+                    playlist: playlist,
+                    extractor: extractor.name
+                })
+        );
+
+        if (playlist) playlist.tracks = tracks;
+
+        return { playlist: playlist, tracks: tracks };
+    }
+
+    /**
+     * Registers extractor, calling its `activate` hook. Extractors are tried by descending priority, in their registration order otherwise.
      * @param {string} extractorName The extractor name
      * @param {ExtractorModel|any} extractor The extractor object
      * @param {boolean} [force=false] Overwrite existing extractor with this name (if available)
+     * @param {ExtractorUseOptions} [options={}] The priority and query types, overriding the ones of the extractor
      * @returns {ExtractorModel}
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    use(extractorName: string, extractor: ExtractorModel | any, force = false): ExtractorModel {
+    use(extractorName: string, extractor: ExtractorModel | any, force = false, options: ExtractorUseOptions = {}): ExtractorModel {
         if (!extractorName) throw new PlayerError("Cannot use unknown extractor!", ErrorStatusCode.UNKNOWN_EXTRACTOR);
         if (this.extractors.has(extractorName) && !force) return this.extractors.get(extractorName);
+
+        let model: ExtractorModel;
         if (extractor instanceof ExtractorModel) {
-            this.extractors.set(extractorName, extractor);
-            return extractor;
-        }
+            model = extractor;
+            if (typeof options.priority === "number") model.priority = options.priority;
+            if (options.queryTypes) model.queryTypes = options.queryTypes;
+        } else {
+            for (const method of ["validate", "getInfo"]) {
+                if (typeof extractor[method] !== "function") throw new PlayerError("Invalid extractor data!", ErrorStatusCode.INVALID_EXTRACTOR);
+            }
 
-        for (const method of ["validate", "getInfo"]) {
-            if (typeof extractor[method] !== "function") throw new PlayerError("Invalid extractor data!", ErrorStatusCode.INVALID_EXTRACTOR);
+            model = new ExtractorModel(extractorName, extractor, options);
         }
 
-        const model = new ExtractorModel(extractorName, extractor);
-        this.extractors.set(model.name, model);
+        const previous = this.extractors.get(extractorName);
+        if (previous && previous !== model) previous.deactivate(this).catch((err: Error) => void this.emit("extractorError", previous, err));
+
+        this.extractors.set(extractorName, model);
+        this.extractors.sort((a, b) => b.priority - a.priority);
+
+        model.activate(this).catch((err: Error) => {
+            // an extractor which could not be set up would fail every query
+            if (this.extractors.get(extractorName) === model) this.extractors.delete(extractorName);
+            this.emit("extractorError", model, err);
+        });
 
         return model;
     }
 
     /**
-     * Removes registered extractor
+     * Removes registered extractor, calling its `deactivate` hook
      * @param {string} extractorName The extractor name
      * @returns {ExtractorModel}
      */
@@ -501,6 +947,7 @@ class Player extends EventEmitter<PlayerEvents> {
         if (!this.extractors.has(extractorName)) throw new PlayerError(`Cannot find extractor "${extractorName}"`, ErrorStatusCode.UNKNOWN_EXTRACTOR);
         const prev = this.extractors.get(extractorName);
         this.extractors.delete(extractorName);
+        prev.deactivate(this).catch((err: Error) => void this.emit("extractorError", prev, err));
         return prev;
     }
 
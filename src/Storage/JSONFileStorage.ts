@@ -0,0 +1,106 @@
+import { Snowflake } from "discord.js";
+import { promises as fs } from "fs";
+import { PlayerStorage, QueueSnapshot } from "../types/types";
+
+class JSONFileStorage implements PlayerStorage {
+    public readonly path: string;
+    private _data: Promise<Record<string, QueueSnapshot>> = null;
+    private _pending: Promise<void> = Promise.resolve();
+
+    /**
+     * Storage adapter which keeps queue snapshots in a single JSON file
+     * @param {string} path The path of the JSON file
+     */
+    constructor(path: string) {
+        /**
+         * The path of the JSON file
+         * @type {string}
+         * @readonly
+         */
+        this.path = path;
+    }
+
+    /**
+     * Returns the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @returns {Promise<QueueSnapshot>}
+     */
+    async get(guild: Snowflake) {
+        const data = await this._load();
+        return data[guild] ?? null;
+    }
+
+    /**
+     * Stores the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @param {QueueSnapshot} snapshot The snapshot
+     * @returns {Promise<void>}
+     */
+    async set(guild: Snowflake, snapshot: QueueSnapshot) {
+        const data = await this._load();
+        data[guild] = snapshot;
+        await this._write();
+    }
+
+    /**
+     * Deletes the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @returns {Promise<void>}
+     */
+    async delete(guild: Snowflake) {
+        const data = await this._load();
+        if (!(guild in data)) return;
+        delete data[guild];
+        await this._write();
+    }
+
+    /**
+     * Lists the guild ids having a snapshot
+     * @returns {Promise<Snowflake[]>}
+     */
+    async list() {
+        const data = await this._load();
+        return Object.keys(data) as Snowflake[];
+    }
+
+    /**
+     * Reads the JSON file once and caches its content. Failed reads (e.g. of an invalid file) are not cached, so they are tried again.
+     * @returns {Promise<object>}
+     * @private
+     */
+    private _load() {
+        this._data ??= fs
+            .readFile(this.path, "utf-8")
+            .then(
+                (content) => JSON.parse(content),
+                (e: NodeJS.ErrnoException) => {
+                    if (e.code === "ENOENT") return {};
+                    throw e;
+                }
+            )
+            .catch((e: Error) => {
+                this._data = null;
+                throw e;
+            });
+
+        return this._data;
+    }
+
+    /**
+     * Writes the cached content to the JSON file. Writes are serialized and go through a temporary file so that the file is never left half-written.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private _write() {
+        const write = async () => {
+            const tmp = `${this.path}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(await this._data));
+            await fs.rename(tmp, this.path);
+        };
+
+        this._pending = this._pending.then(write, write);
+        return this._pending;
+    }
+}
+
+export { JSONFileStorage };
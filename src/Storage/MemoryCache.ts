@@ -0,0 +1,87 @@
+import { Collection } from "discord.js";
+import { CacheBackend } from "../types/types";
+
+class MemoryCache implements CacheBackend {
+    public readonly cache = new Collection<string, { value: unknown; expiresAt: number }>();
+    public readonly maxSize: number;
+
+    /**
+     * Cache backend which keeps the entries in memory, evicting the least recently used ones
+     * @param {number} [maxSize=500] The maximum amount of entries
+     */
+    constructor(maxSize = 500) {
+        /**
+         * The entries, least recently used first
+         * @name MemoryCache#cache
+         * @type {Collection<string, object>}
+         * @readonly
+         */
+
+        /**
+         * The maximum amount of entries
+         * @type {number}
+         * @readonly
+         */
+        this.maxSize = maxSize;
+    }
+
+    /**
+     * Returns the value of a key
+     * @param {string} key The key
+     * @returns {any} The value, `undefined` if it is missing or expired
+     */
+    get(key: string) {
+        const entry = this.cache.get(key);
+        if (!entry) return undefined;
+
+        this.cache.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+
+        // most recently used last
+        this.cache.set(key, entry);
+        return entry.value;
+    }
+
+    /**
+     * Stores the value of a key
+     * @param {string} key The key
+     * @param {any} value The value
+     * @param {number} ttl Time in ms the value is kept
+     * @returns {void}
+     */
+    set(key: string, value: unknown, ttl: number) {
+        this.cache.delete(key);
+        this.cache.set(key, { value, expiresAt: Date.now() + ttl });
+
+        this.cache.sweep((m) => m.expiresAt <= Date.now());
+        while (this.cache.size > this.maxSize) this.cache.delete(this.cache.firstKey());
+    }
+
+    /**
+     * Deletes a key
+     * @param {string} key The key
+     * @returns {void}
+     */
+    delete(key: string) {
+        this.cache.delete(key);
+    }
+
+    /**
+     * Deletes every key
+     * @returns {void}
+     */
+    clear() {
+        this.cache.clear();
+    }
+
+    /**
+     * Returns the amount of entries which have not expired
+     * @returns {number}
+     */
+    size() {
+        this.cache.sweep((m) => m.expiresAt <= Date.now());
+        return this.cache.size;
+    }
+}
+
+export { MemoryCache };
@@ -0,0 +1,56 @@
+import { Collection, Snowflake } from "discord.js";
+import { PlayerStorage, QueueSnapshot } from "../types/types";
+
+class MemoryStorage implements PlayerStorage {
+    public readonly cache = new Collection<Snowflake, QueueSnapshot>();
+
+    /**
+     * Storage adapter which keeps queue snapshots in memory
+     */
+    constructor() {
+        /**
+         * The stored snapshots
+         * @name MemoryStorage#cache
+         * @type {Collection<Snowflake, QueueSnapshot>}
+         * @readonly
+         */
+    }
+
+    /**
+     * Returns the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @returns {QueueSnapshot}
+     */
+    get(guild: Snowflake) {
+        return this.cache.get(guild) ?? null;
+    }
+
+    /**
+     * Stores the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @param {QueueSnapshot} snapshot The snapshot
+     * @returns {void}
+     */
+    set(guild: Snowflake, snapshot: QueueSnapshot) {
+        this.cache.set(guild, snapshot);
+    }
+
+    /**
+     * Deletes the snapshot of the given guild
+     * @param {Snowflake} guild The guild id
+     * @returns {void}
+     */
+    delete(guild: Snowflake) {
+        this.cache.delete(guild);
+    }
+
+    /**
+     * Lists the guild ids having a snapshot
+     * @returns {Snowflake[]}
+     */
+    list() {
+        return [...this.cache.keys()];
+    }
+}
+
+export { MemoryStorage };
@@ -1,22 +1,41 @@
-import { ExtractorModelData } from "../types/types";
+import { Readable } from "stream";
+import { ExtractorModelData, ExtractorStream, ExtractorStreamOptions, ExtractorUseOptions, QueryType } from "../types/types";
+import { Player } from "../Player";
+import Track from "./Track";
 
 class ExtractorModel {
     name: string;
+    priority: number;
+    queryTypes: QueryType[];
     private _raw: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    private _activation: Promise<void> = Promise.resolve();
 
     /**
      * Model for raw Discord Player extractors
      * @param {string} extractorName Name of the extractor
      * @param {object} data Extractor object
+     * @param {ExtractorUseOptions} [options={}] The priority and query types, overriding the ones of the extractor
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    constructor(extractorName: string, data: any) {
+    constructor(extractorName: string, data: any, options: ExtractorUseOptions = {}) {
         /**
          * The extractor name
          * @type {string}
          */
         this.name = extractorName;
 
+        /**
+         * The priority of this extractor, the ones with a higher priority are tried first
+         * @type {number}
+         */
+        this.priority = options.priority ?? data.priority ?? 0;
+
+        /**
+         * The query types handled by this extractor, `null` if it handles every one
+         * @type {?QueryType[]}
+         */
+        this.queryTypes = options.queryTypes ?? data.queryTypes ?? null;
+
         /**
          * The raw model
          * @name ExtractorModel#_raw
@@ -32,24 +51,70 @@ class ExtractorModel {
      * @returns {Promise<ExtractorModelData>}
      */
     async handle(query: string): Promise<ExtractorModelData> {
-        const data = await this._raw.getInfo(query);
-        if (!data) return null;
+        await this._activation;
+        return this._parse(await this._raw.getInfo(query));
+    }
 
-        return {
-            playlist: data.playlist ?? null,
-            data:
-                (data.info as Omit<ExtractorModelData, "playlist">["data"])?.map((m) => ({
-                    title: m.title as string,
-                    duration: m.duration as number,
-                    thumbnail: m.thumbnail as string,
-                    engine: m.engine,
-                    views: m.views as number,
-                    author: m.author as string,
-                    description: m.description as string,
-                    url: m.url as string,
-                    source: m.source || "arbitrary"
-                })) ?? []
-        };
+    /**
+     * Searches tracks by text. Extractors without a `search` method only search the queries they validate.
+     * @param {string} query The search query
+     * @returns {Promise<ExtractorModelData>}
+     */
+    async search(query: string): Promise<ExtractorModelData> {
+        await this._activation;
+        if (typeof this._raw.search === "function") return this._parse(await this._raw.search(query));
+        return this.validate(query) ? this.handle(query) : null;
+    }
+
+    /**
+     * Returns the audio of a track, requested again every time the track is played or seeked.
+     * Extractors without a `stream` method resolve the track again to get a fresh engine, falling back to the engine of the search.
+     * @param {Track} track The track
+     * @param {ExtractorStreamOptions} [options={}] The stream options
+     * @returns {Promise<ExtractorStream>} The audio, `null` if there is none
+     */
+    async stream(track: Track, options: ExtractorStreamOptions = {}): Promise<ExtractorStream> {
+        await this._activation;
+        if (this.streamable) {
+            const data = await this._raw.stream(track, options);
+            if (!data) return null;
+
+            return typeof data === "string" || data instanceof Readable ? { stream: data, seeked: false } : { stream: data.stream, seeked: !!data.seeked };
+        }
+
+        const info = this.validate(track.url) ? await this.handle(track.url).catch((): ExtractorModelData => null) : null;
+        let engine = (info?.data.find((m) => m.url === track.url) ?? info?.data[0])?.engine ?? track.raw.engine;
+        if (typeof engine === "function") engine = await engine();
+
+        return engine ? { stream: engine, seeked: false } : null;
+    }
+
+    /**
+     * Sets up this extractor, which waits for it before handling queries
+     * @param {Player} player The player registering this extractor
+     * @returns {Promise<void>}
+     */
+    activate(player: Player): Promise<void> {
+        this._activation = Promise.resolve().then(() => (typeof this._raw.activate === "function" ? this._raw.activate(player) : undefined));
+        return this._activation;
+    }
+
+    /**
+     * Cleans up this extractor once it is unregistered
+     * @param {Player} player The player which registered this extractor
+     * @returns {Promise<void>}
+     */
+    async deactivate(player: Player): Promise<void> {
+        if (typeof this._raw.deactivate === "function") await this._raw.deactivate(player);
+    }
+
+    /**
+     * Checks if this extractor handles the given query type
+     * @param {QueryType} queryType The query type
+     * @returns {boolean}
+     */
+    supports(queryType: QueryType): boolean {
+        return !this.queryTypes?.length || this.queryTypes.includes(queryType);
     }
 
     /**
@@ -61,6 +126,14 @@ class ExtractorModel {
         return Boolean(this._raw.validate(query));
     }
 
+    /**
+     * If this extractor implements `stream`, resolving the audio of its tracks at play time
+     * @type {boolean}
+     */
+    get streamable(): boolean {
+        return typeof this._raw.stream === "function";
+    }
+
     /**
      * The extractor version
      * @type {string}
@@ -68,6 +141,33 @@ class ExtractorModel {
     get version(): string {
         return this._raw.version ?? "0.0.0";
     }
+
+    /**
+     * Parses the data returned by the extractor
+     * @param {any} data The data
+     * @returns {ExtractorModelData}
+     * @private
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private _parse(data: any): ExtractorModelData {
+        if (!data) return null;
+
+        return {
+            playlist: data.playlist ?? null,
+            data:
+                (data.info as Omit<ExtractorModelData, "playlist">["data"])?.map((m) => ({
+                    title: m.title as string,
+                    duration: m.duration as number,
+                    thumbnail: m.thumbnail as string,
+                    engine: m.engine,
+                    views: m.views as number,
+                    author: m.author as string,
+                    description: m.description as string,
+                    url: m.url as string,
+                    source: m.source || "arbitrary"
+                })) ?? []
+        };
+    }
 }
 
 export { ExtractorModel };
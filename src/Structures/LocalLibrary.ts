@@ -0,0 +1,344 @@
+import { Collection, User } from "discord.js";
+import { FSWatcher, promises as fs, watch } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { TypedEmitter as EventEmitter } from "tiny-typed-emitter";
+import { Player } from "../Player";
+import { LocalLibraryEntry, LocalLibraryOptions } from "../types/types";
+import { LocalFiles } from "../utils/LocalFiles";
+import { Util } from "../utils/Util";
+import { ErrorStatusCode, PlayerError } from "./PlayerError";
+import { Playlist } from "./Playlist";
+import Track from "./Track";
+
+// the default amount of search results
+const SEARCH_LIMIT = 25;
+// time in ms to wait for more file changes before scanning
+const WATCH_DELAY = 1000;
+
+/**
+ * Emitted once the library has been loaded and scanned for the first time
+ * @event LocalLibrary#ready
+ */
+
+/**
+ * Emitted when a scan changed the index, the player updates the queued tracks of the changed files and removes the ones of the deleted files
+ * @event LocalLibrary#update
+ * @param {LocalLibraryEntry[]} changed The new and modified entries
+ * @param {string[]} removed The paths of the deleted files
+ */
+
+/**
+ * Emitted when the library fails to load, scan or save its index
+ * @event LocalLibrary#error
+ * @param {Error} error The error
+ */
+
+export interface LocalLibraryEvents {
+    ready: () => unknown;
+    update: (changed: LocalLibraryEntry[], removed: string[]) => unknown;
+    error: (error: Error) => unknown;
+}
+
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+class LocalLibrary extends EventEmitter<LocalLibraryEvents> {
+    public readonly player: Player;
+    public readonly options: LocalLibraryOptions;
+    public readonly entries = new Collection<string, LocalLibraryEntry>();
+    private _init: Promise<void> = null;
+    private _scan: Promise<void> = Promise.resolve();
+    private _watchers: FSWatcher[] = [];
+    private _watchTimeout: NodeJS.Timeout = null;
+
+    /**
+     * Index of the tags of the local audio files, searchable with `QueryType.LOCAL_SEARCH`
+     * @param {Player} player The player
+     * @param {LocalLibraryOptions} [options={}] The library options
+     */
+    constructor(player: Player, options: LocalLibraryOptions = {}) {
+        super();
+
+        /**
+         * The player
+         * @type {Player}
+         * @readonly
+         */
+        this.player = player;
+
+        /**
+         * The library options
+         * @type {LocalLibraryOptions}
+         * @readonly
+         */
+        this.options = { watch: true, ...options };
+
+        // the indexed files are played through LocalFiles.resolve, which rejects anything outside of the root
+        const root = this.player.options.localRoot;
+        if (!root) throw new PlayerError("The local library needs the localRoot option of the player to be set", ErrorStatusCode.FORBIDDEN_PATH);
+        for (const directory of this.directories) {
+            if (!LocalFiles.contains(path.resolve(root), path.resolve(directory))) throw new PlayerError(`"${directory}" is outside of the allowed root directory`, ErrorStatusCode.FORBIDDEN_PATH);
+        }
+
+        /**
+         * The indexed files, by path
+         * @name LocalLibrary#entries
+         * @type {Collection<string, LocalLibraryEntry>}
+         * @readonly
+         */
+    }
+
+    /**
+     * The scanned directories
+     * @type {string[]}
+     */
+    get directories() {
+        if (this.options.directories?.length) return [...this.options.directories];
+        return [this.player.options.localRoot];
+    }
+
+    /**
+     * Loads the persisted index, scans the directories and starts watching them. Only runs once.
+     * @returns {Promise<void>}
+     */
+    init() {
+        this._init ??= (async () => {
+            try {
+                await this.load();
+                await this.scan();
+                if (this.options.watch) await this.watch();
+            } catch (e) {
+                this._emitError(e as Error);
+            }
+
+            this.emit("ready");
+        })();
+
+        return this._init;
+    }
+
+    /**
+     * Loads the persisted index
+     * @returns {Promise<void>}
+     */
+    async load() {
+        if (!this.options.indexPath) return;
+
+        const content = await fs.readFile(this.options.indexPath, "utf-8").catch((e: NodeJS.ErrnoException) => {
+            if (e.code === "ENOENT") return null;
+            throw e;
+        });
+        if (!content) return;
+
+        const entries: LocalLibraryEntry[] = JSON.parse(content).entries ?? [];
+        for (const entry of entries) this.entries.set(entry.path, entry);
+    }
+
+    /**
+     * Writes the index to the index file (if any)
+     * @returns {Promise<void>}
+     */
+    async save() {
+        if (!this.options.indexPath) return;
+
+        const tmp = `${this.options.indexPath}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ entries: [...this.entries.values()] }));
+        await fs.rename(tmp, this.options.indexPath);
+    }
+
+    /**
+     * Indexes new and modified files, and drops the deleted ones. Scans are serialized.
+     * @returns {Promise<void>}
+     */
+    scan() {
+        this._scan = this._scan.then(
+            () => this._scanDirectories(),
+            () => this._scanDirectories()
+        );
+
+        return this._scan;
+    }
+
+    /**
+     * Watches the directories, rescanning them on changes. The watchers do not keep the process alive.
+     * @returns {Promise<void>}
+     */
+    async watch() {
+        this.unwatch();
+        const watchers: FSWatcher[] = [];
+        this._watchers = watchers;
+
+        for (const directory of this.directories) {
+            const directories = await this._listDirectories(directory).catch(() => [] as string[]);
+            // unwatched (or watched again) while listing
+            if (this._watchers !== watchers) return;
+
+            for (const dir of directories) {
+                const watcher = watch(dir, { persistent: false }, () => {
+                    if (this._watchTimeout) clearTimeout(this._watchTimeout);
+                    this._watchTimeout = setTimeout(() => {
+                        this._watchTimeout = null;
+                        // new directories have to be watched as well
+                        void this.scan()
+                            .then(() => this._watchers === watchers && this.watch())
+                            .catch((e: Error) => this._emitError(e));
+                    }, WATCH_DELAY).unref();
+                });
+
+                watcher.on("error", Util.noop);
+                watchers.push(watcher);
+            }
+        }
+    }
+
+    /**
+     * Stops watching the directories, called by `Player#destroy`
+     * @returns {void}
+     */
+    unwatch() {
+        for (const watcher of this._watchers) watcher.close();
+        this._watchers = [];
+        if (this._watchTimeout) clearTimeout(this._watchTimeout);
+        this._watchTimeout = null;
+    }
+
+    /**
+     * Searches the library. `album:<name>` and `folder:<path>` queries return the album or folder as a playlist.
+     * @param {string} query The query
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @param {number} [limit=25] The maximum amount of tracks, ignored by albums and folders
+     * @returns {Promise<{ playlist: Playlist, tracks: Track[] }>}
+     */
+    async search(query: string, requestedBy?: User, limit = SEARCH_LIMIT): Promise<{ playlist: Playlist; tracks: Track[] }> {
+        await this.init();
+        const [, prefix, value] = /^(album|folder):\s*(.+)$/i.exec(query.trim()) ?? [];
+
+        if (prefix?.toLowerCase() === "album") return this._createPlaylist(this.getAlbum(value), "album", value, requestedBy);
+        if (prefix?.toLowerCase() === "folder") return this._createPlaylist(this.getFolder(value), "playlist", path.basename(value), requestedBy, value);
+
+        const tokens = query
+            .toLowerCase()
+            .split(/\s+/)
+            .filter((m) => !!m);
+        if (!tokens.length) return { playlist: null, tracks: [] };
+
+        const results = this.entries
+            .filter((m) => {
+                const text = [m.title, m.artist, m.album].join(" ").toLowerCase();
+                return tokens.every((t) => text.includes(t));
+            })
+            .map((entry) => {
+                // title matches rank first
+                const title = entry.title.toLowerCase();
+                return { entry, score: tokens.filter((t) => title.includes(t)).length + (title === query.trim().toLowerCase() ? tokens.length : 0) };
+            })
+            .sort((a, b) => b.score - a.score || compareNames(a.entry.path, b.entry.path))
+            .slice(0, limit);
+
+        return { playlist: null, tracks: results.map((m) => LocalFiles.createTrack(this.player, m.entry, requestedBy)) };
+    }
+
+    /**
+     * Returns the entries of an album, in track order
+     * @param {string} name The album name, case insensitive
+     * @returns {LocalLibraryEntry[]}
+     */
+    getAlbum(name: string) {
+        const album = name.trim().toLowerCase();
+
+        return [...this.entries.filter((m) => m.album?.toLowerCase() === album).values()].sort((a, b) => (a.trackNumber ?? Infinity) - (b.trackNumber ?? Infinity) || compareNames(a.path, b.path));
+    }
+
+    /**
+     * Returns the entries located in a folder and its subfolders, in path order
+     * @param {string} folder The folder path
+     * @returns {LocalLibraryEntry[]}
+     */
+    getFolder(folder: string) {
+        const dir = path.resolve(folder.trim());
+
+        return [...this.entries.filter((m) => m.path !== dir && LocalFiles.contains(dir, m.path)).values()].sort((a, b) => compareNames(a.path, b.path));
+    }
+
+    private async _scanDirectories() {
+        const seen = new Set<string>();
+        const root = await fs.realpath(this.player.options.localRoot).catch(Util.noop);
+        const changed: LocalLibraryEntry[] = [];
+        const removed: string[] = [];
+
+        for (const directory of this.directories) {
+            const dir = await fs.realpath(directory).catch(Util.noop);
+            // symlinked directories may lead out of the root
+            if (!dir || !root || !LocalFiles.contains(root, dir)) continue;
+
+            for (const file of await LocalFiles.scanDirectory(dir)) {
+                seen.add(file);
+                const stats = await fs.stat(file).catch(Util.noop);
+                if (!stats) continue;
+
+                const indexed = this.entries.get(file);
+                if (indexed && indexed.mtime === stats.mtimeMs && indexed.size === stats.size) continue;
+
+                const info = await LocalFiles.getInfo(file, true).catch(Util.noop);
+                if (!info) continue;
+                delete info.picture;
+
+                const entry = { ...info, mtime: stats.mtimeMs, size: stats.size };
+                this.entries.set(file, entry);
+                changed.push(entry);
+            }
+        }
+
+        for (const file of this.entries.keys()) {
+            if (seen.has(file)) continue;
+            this.entries.delete(file);
+            removed.push(file);
+        }
+
+        if (!changed.length && !removed.length) return;
+        await this.save();
+        this.emit("update", changed, removed);
+    }
+
+    private _emitError(error: Error) {
+        // the library works without listeners, unlike the default behavior of "error" events
+        if (this.listenerCount("error")) this.emit("error", error);
+    }
+
+    private async _listDirectories(directory: string): Promise<string[]> {
+        const entries = await fs.readdir(directory, { withFileTypes: true });
+        const directories = [directory];
+
+        for (const entry of entries) {
+            if (entry.isDirectory()) directories.push(...(await this._listDirectories(path.join(directory, entry.name))));
+        }
+
+        return directories;
+    }
+
+    private _createPlaylist(entries: LocalLibraryEntry[], type: "album" | "playlist", title: string, requestedBy?: User, folder?: string) {
+        if (!entries.length) return { playlist: null as Playlist, tracks: [] as Track[] };
+        const artists = new Set(entries.map((m) => m.artist).filter((m) => !!m));
+        const url = pathToFileURL(folder ? path.resolve(folder) : path.dirname(entries[0].path)).href;
+
+        const playlist = new Playlist(this.player, {
+            title: type === "album" ? entries[0].album : title,
+            description: "",
+            thumbnail: "",
+            type,
+            source: "local",
+            author: {
+                name: artists.size === 1 ? [...artists][0] : "Various artists",
+                url: ""
+            },
+            tracks: [],
+            id: `${type}:${type === "album" ? entries[0].album : url}`,
+            url
+        });
+        playlist.tracks = entries.map((m) => LocalFiles.createTrack(this.player, m, requestedBy, playlist));
+
+        return { playlist, tracks: playlist.tracks };
+    }
+}
+
+export { LocalLibrary };
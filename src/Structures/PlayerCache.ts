@@ -0,0 +1,219 @@
+import { User } from "discord.js";
+import { downloadOptions, getInfo, getURLVideoID, videoInfo } from "ytdl-core";
+import { Player } from "../Player";
+import { MemoryCache } from "../Storage/MemoryCache";
+import { CacheBackend, CacheOptions, CacheStats, PlaylistJSON, QueryType, SearchOptions, SearchResult, TrackJSON } from "../types/types";
+import { Playlist } from "./Playlist";
+import Track from "./Track";
+
+// local files may change at any time, and the tracks of the other engines cannot be rebuilt from their JSON
+const CACHED_ENGINES: QueryType[] = [
+    QueryType.YOUTUBE_SEARCH,
+    QueryType.YOUTUBE_VIDEO,
+    QueryType.YOUTUBE_PLAYLIST,
+    QueryType.SOUNDCLOUD_TRACK,
+    QueryType.SOUNDCLOUD_SEARCH,
+    QueryType.SOUNDCLOUD_PLAYLIST,
+    QueryType.SPOTIFY_SONG,
+    QueryType.SPOTIFY_ALBUM,
+    QueryType.SPOTIFY_PLAYLIST,
+    QueryType.DEEZER_SONG,
+    QueryType.DEEZER_ALBUM,
+    QueryType.DEEZER_PLAYLIST,
+    QueryType.APPLE_MUSIC_SONG,
+    QueryType.APPLE_MUSIC_ALBUM,
+    QueryType.APPLE_MUSIC_PLAYLIST
+];
+
+interface CachedSearchResult {
+    playlist: PlaylistJSON;
+    tracks: TrackJSON[];
+    continuation?: string;
+}
+
+// urls are case sensitive, unlike search queries
+const normalizeQuery = (query: string) => (/^https?:\/\//i.test(query.trim()) ? query.trim() : query.trim().toLowerCase().replace(/\s+/g, " "));
+
+class PlayerCache {
+    public readonly player: Player;
+    public readonly options: CacheOptions;
+    public readonly backend: CacheBackend;
+    private _hits = 0;
+    private _misses = 0;
+
+    /**
+     * Caches search results and YouTube video info, sparing the requests of repeated searches
+     * @param {Player} player The player
+     * @param {CacheOptions} [options={}] The cache options
+     */
+    constructor(player: Player, options: CacheOptions = {}) {
+        /**
+         * The player
+         * @type {Player}
+         * @readonly
+         */
+        this.player = player;
+
+        /**
+         * The cache options
+         * @type {CacheOptions}
+         * @readonly
+         */
+        this.options = { ttl: 300000, maxSize: 500, ...options };
+
+        /**
+         * The backend storing the entries
+         * @type {CacheBackend}
+         * @readonly
+         */
+        this.backend = this.options.backend ?? new MemoryCache(this.options.maxSize);
+    }
+
+    /**
+     * If the cache is enabled
+     * @type {boolean}
+     */
+    get enabled() {
+        return this.options.ttl > 0;
+    }
+
+    /**
+     * Returns the value of a key. Backend failures are treated as misses.
+     * @param {string} key The key
+     * @returns {Promise<any>} The value, `undefined` if it is missing or expired
+     */
+    async get<T = unknown>(key: string): Promise<T> {
+        if (!this.enabled) return undefined;
+
+        const value = await Promise.resolve()
+            .then(() => this.backend.get(key))
+            .catch((): unknown => undefined);
+        if (value === undefined || value === null) {
+            this._misses++;
+            return undefined;
+        }
+
+        this._hits++;
+        return value as T;
+    }
+
+    /**
+     * Stores the value of a key. Backend failures are ignored.
+     * @param {string} key The key
+     * @param {any} value The value
+     * @param {number} [ttl=this.options.ttl] Time in ms the value is kept
+     * @returns {Promise<void>}
+     */
+    async set(key: string, value: unknown, ttl = this.options.ttl) {
+        if (!this.enabled) return;
+
+        await Promise.resolve()
+            .then(() => this.backend.set(key, value, ttl))
+            .catch((): void => undefined);
+    }
+
+    /**
+     * Deletes every entry and resets the stats
+     * @returns {Promise<void>}
+     */
+    async clear() {
+        this._hits = 0;
+        this._misses = 0;
+        await this.backend.clear();
+    }
+
+    /**
+     * Returns the cache stats
+     * @returns {Promise<CacheStats>}
+     */
+    async stats(): Promise<CacheStats> {
+        return {
+            hits: this._hits,
+            misses: this._misses,
+            size: await Promise.resolve()
+                .then(() => this.backend.size())
+                .catch(() => 0)
+        };
+    }
+
+    /**
+     * Returns the cached result of a search, or runs the search and caches its result. Searches using a `filter` and
+     * results which are empty or have an incomplete playlist are not cached.
+     * @param {string} query The search query
+     * @param {QueryType} engine The resolved search engine
+     * @param {SearchOptions} options The search options
+     * @param {Function} search Runs the search
+     * @returns {Promise<SearchResult>}
+     */
+    async search(query: string, engine: QueryType, options: SearchOptions, search: () => Promise<SearchResult>): Promise<SearchResult> {
+        if (!this.enabled || !CACHED_ENGINES.includes(engine) || typeof options.filter === "function") return search();
+
+        const params = [options.limit, options.offset, options.continuation, options.minDuration, options.maxDuration, options.excludeLive ? 1 : 0];
+        const key = `search:${engine}:${params.join(",")}:${normalizeQuery(query)}`;
+        const cached = await this.get<CachedSearchResult>(key);
+        if (cached) return this.#createSearchResult(cached, options.requestedBy as User);
+
+        const result = await search();
+        if (result.tracks.length && (!result.playlist || result.playlist.complete)) {
+            await this.set(key, {
+                playlist: result.playlist?.toJSON(false) ?? null,
+                tracks: result.tracks.map((m) => m.toJSON(true)),
+                continuation: result.continuation
+            } as CachedSearchResult);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the info of a YouTube video, from the cache or by fetching it
+     * @param {string} url The video url
+     * @param {downloadOptions} [options] The options passed to `ytdl-core`
+     * @returns {Promise<videoInfo>}
+     */
+    async getInfo(url: string, options?: downloadOptions): Promise<videoInfo> {
+        const key = this.#getInfoKey(url);
+        const cached = await this.get<videoInfo>(key);
+        if (cached) return cached;
+
+        const info = await getInfo(url, options);
+        await this.set(key, info);
+
+        return info;
+    }
+
+    /**
+     * Deletes the cached info of a YouTube video, whose stream urls may have expired. Backend failures are ignored.
+     * @param {string} url The video url
+     * @returns {Promise<void>}
+     */
+    async deleteInfo(url: string) {
+        await Promise.resolve()
+            .then(() => this.backend.delete(this.#getInfoKey(url)))
+            .catch((): void => undefined);
+    }
+
+    #getInfoKey(url: string) {
+        try {
+            return `info:${getURLVideoID(url)}`;
+        } catch {
+            return `info:${url}`;
+        }
+    }
+
+    #createSearchResult(data: CachedSearchResult, requestedBy?: User): SearchResult {
+        const playlist = data.playlist ? new Playlist(this.player, { ...data.playlist, tracks: [] }) : null;
+        const tracks = data.tracks.map((m) => {
+            const track = Track.fromJSON(this.player, m);
+            track.requestedBy = requestedBy;
+            track.playlist = playlist;
+            return track;
+        });
+
+        if (playlist) playlist.tracks = tracks;
+
+        return { playlist, tracks, continuation: data.continuation };
+    }
+}
+
+export { PlayerCache };
@@ -12,7 +12,9 @@ export enum ErrorStatusCode {
     UNKNOWN_REPEAT_MODE = "UnknownRepeatMode",
     TRACK_NOT_FOUND = "TrackNotFound",
     NO_CONNECTION = "NoConnection",
-    DESTROYED_QUEUE = "DestroyedQueue"
+    DESTROYED_QUEUE = "DestroyedQueue",
+    NOT_SEEKABLE = "NotSeekable",
+    FORBIDDEN_PATH = "ForbiddenPath"
 }
 
 export class PlayerError extends Error {
@@ -1,6 +1,7 @@
 import { Player } from "../Player";
 import { Track } from "./Track";
-import { PlaylistInitData, PlaylistJSON, TrackJSON, TrackSource } from "../types/types";
+import { PlaylistFileFormat, PlaylistInitData, PlaylistJSON, TrackJSON, TrackSource } from "../types/types";
+import { PlaylistFiles } from "../utils/PlaylistFiles";
 
 class Playlist {
     public readonly player: Player;
@@ -16,7 +17,11 @@ class Playlist {
     };
     public id: string;
     public url: string;
+    public totalTracks: number;
     public readonly rawPlaylist?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    private _loader: () => Promise<Track[]> = null;
+    private _fetching: Promise<Track[]> = null;
+    private _total: number = null;
 
     /**
      * Playlist constructor
@@ -74,6 +79,9 @@ class Playlist {
          * - `youtube`
          * - `soundcloud`
          * - `spotify`
+         * - `deezer`
+         * - `apple_music`
+         * - `local`
          * - `arbitrary`
          * @name Playlist#source
          * @type {string}
@@ -100,6 +108,13 @@ class Playlist {
          */
         this.title = data.title;
 
+        /**
+         * The amount of tracks of this playlist, including the ones which have not been fetched yet
+         * @name Playlist#totalTracks
+         * @type {number}
+         */
+        this.totalTracks = data.totalTracks ?? this.tracks.length;
+
         /**
          * @name Playlist#rawPlaylist
          * @type {any}
@@ -111,6 +126,79 @@ class Playlist {
         yield* this.tracks;
     }
 
+    /**
+     * If every track of this playlist has been fetched
+     * @type {boolean}
+     */
+    get complete() {
+        return !this._loader;
+    }
+
+    /**
+     * Sets the function fetching the next page of tracks, which makes this playlist lazy.
+     * The playlist is complete once a page is empty or the given amount of tracks is reached.
+     * @param {Function} loader The function resolving the tracks of the next page
+     * @param {number} [totalTracks] The amount of tracks of the whole playlist
+     * @returns {void}
+     */
+    setLoader(loader: () => Promise<Track[]>, totalTracks?: number) {
+        this._total = typeof totalTracks === "number" ? totalTracks : null;
+        this._loader = this._total !== null && this.tracks.length >= this._total ? null : loader;
+        this.totalTracks = Math.max(this._total ?? 0, this.tracks.length);
+    }
+
+    /**
+     * Fetches the next page of tracks, appending it to the tracks of this playlist.
+     * Concurrent calls share the same request.
+     * @returns {Promise<Track[]>} The fetched tracks, empty if the playlist is complete
+     */
+    fetchNext(): Promise<Track[]> {
+        if (!this._loader) return Promise.resolve([]);
+
+        this._fetching ??= this._loader().then(
+            (tracks) => {
+                this._fetching = null;
+                this.tracks.push(...tracks);
+                this.totalTracks = Math.max(this._total ?? 0, this.tracks.length);
+                if (!tracks.length || (this._total !== null && this.tracks.length >= this._total)) {
+                    this._loader = null;
+                    this.totalTracks = this.tracks.length;
+                }
+
+                return tracks;
+            },
+            (error) => {
+                this._fetching = null;
+                throw error;
+            }
+        );
+
+        return this._fetching;
+    }
+
+    /**
+     * Fetches every remaining page of this playlist
+     * @param {Function} [onProgress] Called with the fetched tracks after each page
+     * @returns {Promise<Playlist>}
+     */
+    async load(onProgress?: (tracks: Track[]) => unknown) {
+        while (!this.complete) {
+            const tracks = await this.fetchNext();
+            if (onProgress) onProgress(tracks);
+        }
+
+        return this;
+    }
+
+    /**
+     * Writes the tracks of this playlist as a playlist file
+     * @param {PlaylistFileFormat} [format="m3u"] The format
+     * @returns {string}
+     */
+    export(format: PlaylistFileFormat = "m3u") {
+        return PlaylistFiles.export(this.tracks, format, this.title);
+    }
+
     /**
      * JSON representation of this playlist
      * @param {boolean} [withTracks=true] If it should build json with tracks
@@ -1,15 +1,104 @@
-import { Collection, Guild, StageChannel, VoiceChannel, Snowflake, SnowflakeUtil, GuildChannelResolvable } from "discord.js";
+import { Collection, Guild, StageChannel, VoiceChannel, Snowflake, SnowflakeUtil, GuildChannelResolvable, Util as DiscordUtil } from "discord.js";
 import { Player } from "../Player";
 import { StreamDispatcher } from "../VoiceInterface/StreamDispatcher";
 import Track from "./Track";
-import { PlayerOptions, PlayerProgressbarOptions, PlayOptions, QueueFilters, QueueRepeatMode, TrackSource } from "../types/types";
+import { Playlist } from "./Playlist";
+import {
+    BridgeCandidate,
+    EqualizerBand,
+    FiltersName,
+    PCMFilterOptions,
+    PlayerOptions,
+    PlayerProgressbarOptions,
+    PlayOptions,
+    PlaylistFileFormat,
+    QueryType,
+    QueueFilters,
+    QueueRepeatMode,
+    QueueSnapshot,
+    RadioOptions,
+    RadioSeed,
+    RadioSnapshot,
+    RadioStation,
+    TrackSource
+} from "../types/types";
 import ytdl from "discord-ytdl-core";
-import { AudioResource, StreamType } from "@discordjs/voice";
+import { AudioResource, StreamType, VoiceConnectionStatus } from "@discordjs/voice";
 import { Util } from "../utils/Util";
-import YouTube from "youtube-sr";
 import AudioFilters from "../utils/AudioFilters";
+import { Equalizer } from "../utils/Equalizer";
 import { PlayerError, ErrorStatusCode } from "./PlayerError";
 import type { Readable } from "stream";
+import { Client as SoundCloud } from "soundcloud-scraper";
+import { CrossfadeStream } from "../VoiceInterface/CrossfadeStream";
+import { PCMFilterer } from "../VoiceInterface/PCMFilterer";
+import { LoudnessMeter } from "../utils/LoudnessMeter";
+import { Radio } from "../utils/Radio";
+import { IcyDemuxer } from "../VoiceInterface/IcyDemuxer";
+import { LocalFiles } from "../utils/LocalFiles";
+import { PlaylistFiles } from "../utils/PlaylistFiles";
+import { SearchRanker } from "../utils/SearchRanker";
+import { createReadStream } from "fs";
+import type { videoInfo } from "ytdl-core";
+
+const soundcloud = new SoundCloud();
+
+// time in ms before the end of the current track (or the start of the crossfade) at which the next track gets resolved
+const PREFETCH_TIME = 15000;
+
+// filters applied on the PCM stream, which can be toggled without restarting FFmpeg,
+// as long as their definition has the form of the default one (redefined filters are applied by FFmpeg otherwise)
+const PCM_FILTERS: FiltersName[] = ["bassboost_low", "bassboost", "bassboost_high", "treble", "mono"];
+const getPCMFilter = (name: FiltersName) => (PCM_FILTERS.includes(name) ? AudioFilters.pcmOf(AudioFilters[name]) : null);
+
+// audio measured before the normalisation gain of a track with unknown loudness gets applied
+const LOUDNESS_MEASURE_TIME = 3000;
+// audio measured before the loudness of a track gets cached
+const LOUDNESS_CACHE_TIME = 10000;
+const LOUDNESS_CACHE_SIZE = 1000;
+const MAX_NORMALIZATION_GAIN = 12;
+// reference loudness of the YouTube loudnessDb
+const YOUTUBE_REFERENCE_LOUDNESS = -14;
+
+// tracks stopping earlier than this (in ms) before their end are considered stalled
+const EARLY_END_TOLERANCE = 5000;
+// delay in ms before resuming a failed track, multiplied by the attempt
+const RETRY_DELAY = 1000;
+// sources whose durations are the ones of their streams
+const STREAM_DURATION_SOURCES: TrackSource[] = ["youtube", "soundcloud"];
+const BRIDGED_SOURCES: TrackSource[] = ["spotify", "deezer", "apple_music"];
+
+// amount of searched tracks used as seeds of an artist or genre radio
+const RADIO_SEEDS = 5;
+// amount of last played tracks checked for the artist limit of the radio
+const RADIO_ARTIST_WINDOW = 10;
+
+// measured or estimated loudness of each track url, shared by every queue
+const loudnessCache = new Collection<string, number>();
+
+interface PrefetchData {
+    track: Track;
+    stream: Readable;
+    attached: boolean;
+}
+
+interface LoudnessData {
+    track: Track;
+    meter: LoudnessMeter;
+    gain: number;
+}
+
+interface RecoveryData {
+    track: Track;
+    attempts: number;
+    alternate: BridgeCandidate;
+}
+
+interface RadioData {
+    seeds: Track[];
+    options: RadioOptions;
+    filling: Promise<void>;
+}
 
 class Queue<T = unknown> {
     public readonly guild: Guild;
@@ -25,11 +114,26 @@ class Queue<T = unknown> {
     private _streamTime = 0;
     public _cooldownsTimeout = new Collection<string, NodeJS.Timeout>();
     private _activeFilters: any[] = []; // eslint-disable-line @typescript-eslint/no-explicit-any
+    private _equalizer: number[] = Equalizer.resolve([]);
+    private _speed = 1;
+    private _pitch = 0;
+    private _balance = 0;
     private _filtersUpdate = false;
     private _trackSkipped = false;
     private _leaveTimeout: NodeJS.Timeout = null;
     #lastVolume = 0;
     #destroyed = false;
+    #prefetched: PrefetchData = null;
+    #crossfader: CrossfadeStream = null;
+    #pcmFilterer: PCMFilterer = null;
+    #passthrough = false;
+    #loudness: LoudnessData = null;
+    #monitorInterval: NodeJS.Timeout = null;
+    #loadingPlaylists = new Set<Playlist>();
+    #radio: RadioData = null;
+    #failure: { track: Track; error: Error } = null;
+    #recovery: RecoveryData = null;
+    #retrying = false;
     public createStream: (track: Track, source: TrackSource, queue: Queue) => Promise<Readable> | Readable = null;
 
     /**
@@ -107,7 +211,11 @@ class Queue<T = unknown> {
                     highWaterMark: 1 << 25
                 },
                 initialVolume: 100,
-                bufferingTimeout: 3000
+                bufferingTimeout: 3000,
+                crossfade: 0,
+                prefetch: false,
+                opusPassthrough: false,
+                maxRetries: 3
             } as PlayerOptions,
             options
         );
@@ -181,19 +289,38 @@ class Queue<T = unknown> {
                 this._leaveTimeout = null;
             }
             this.playing = true;
-            if (!this._filtersUpdate && resource?.metadata) this.player.emit("trackStart", this, resource?.metadata ?? this.current);
+            // resumed tracks have already started
+            if (!this._filtersUpdate && !this.#retrying && resource?.metadata) this.player.emit("trackStart", this, resource?.metadata ?? this.current);
+            if (this.#recovery?.track !== resource?.metadata) this.#recovery = null;
+            this.#retrying = false;
             this._filtersUpdate = false;
             this._trackSkipped = false;
+            void this.player.saveQueue(this);
+
+            this.#startMonitor();
+            if (this.#radio) void this.#fillRadio();
         });
 
         this.connection.on("finish", async (resource) => {
             if (this.#watchDestroyed(false)) return;
             this.playing = false;
             if (this._filtersUpdate) return;
+            const position = this.streamTime;
             this._streamTime = 0;
+            clearInterval(this.#monitorInterval);
+            this.#monitorInterval = null;
+            this.#cacheLoudness(resource.metadata);
+
+            const failure = this.#getFailure(resource.metadata, position);
+            if (failure && (await this.#recover(resource.metadata, failure, position))) return;
 
             this.player.emit("trackEnd", this, resource.metadata);
 
+            if (this.#radio && !this.tracks.length) {
+                await this.#fillRadio();
+                if (this.#destroyed) return;
+            }
+
             if (!this.tracks.length && this.repeatMode === QueueRepeatMode.OFF) {
                 if (this.options.leaveOnEnd) this.destroy();
                 if (this.options.leaveOnEmpty) this._leaveTimeout = setTimeout(() => {this.destroy();}, this.options.leaveOnEmptyCooldown);
@@ -221,11 +348,16 @@ class Queue<T = unknown> {
      */
     destroy(disconnect = this.options.leaveOnStop) {
         if (this.#watchDestroyed()) return;
+        clearInterval(this.#monitorInterval);
+        this.#clearPrefetch();
+        this.#loadingPlaylists.clear();
+        this.#radio = null;
         if (this.connection) this.connection.end();
         if (disconnect) this.connection?.disconnect();
         this.player.queues.delete(this.guild.id);
         this.player.voiceUtils.cache.delete(this.guild.id);
         this.#destroyed = true;
+        void this.player.saveQueue(this, true);
     }
 
     /**
@@ -249,8 +381,9 @@ class Queue<T = unknown> {
     addTrack(track: Track) {
         if (this.#watchDestroyed()) return;
         if (!(track instanceof Track)) throw new PlayerError("invalid track", ErrorStatusCode.INVALID_TRACK);
-        this.tracks.push(track);
+        this.#insertRequested([track]);
         this.player.emit("trackAdd", this, track);
+        void this.player.saveQueue(this);
     }
 
     /**
@@ -260,8 +393,68 @@ class Queue<T = unknown> {
     addTracks(tracks: Track[]) {
         if (this.#watchDestroyed()) return;
         if (!tracks.every((y) => y instanceof Track)) throw new PlayerError("invalid track", ErrorStatusCode.INVALID_TRACK);
-        this.tracks.push(...tracks);
+        this.#insertRequested(tracks);
         this.player.emit("tracksAdd", this, tracks);
+        void this.player.saveQueue(this);
+    }
+
+    /**
+     * Adds the tracks of a playlist to the queue.
+     * The tracks of a lazy playlist which have not been fetched yet are added in the background, after its previous tracks.
+     * @param {Playlist} playlist The playlist to add
+     * @returns {void}
+     */
+    addPlaylist(playlist: Playlist) {
+        if (this.#watchDestroyed()) return;
+        if (!(playlist instanceof Playlist)) throw new PlayerError("invalid playlist", ErrorStatusCode.INVALID_ARG_TYPE);
+        if (playlist.tracks.length) this.addTracks([...playlist.tracks]);
+        if (!playlist.complete && !this.#loadingPlaylists.has(playlist)) void this.#loadPlaylist(playlist);
+    }
+
+    /**
+     * Starts the radio, which keeps the queue topped up with tracks similar to the seed. Tracks added by users are played before the generated ones.
+     * The playback starts if nothing is playing.
+     * @param {RadioSeed} seed The seed of the radio
+     * @param {RadioOptions} [options={}] The radio options
+     * @returns {Promise<void>}
+     */
+    async startRadio(seed: RadioSeed, options: RadioOptions = {}) {
+        if (this.#watchDestroyed()) return;
+        const seeds = await this.#resolveRadioSeeds(seed, options);
+        if (this.#destroyed) return;
+        if (!seeds.length) throw new PlayerError(`Could not find the tracks of "${seed}"`, ErrorStatusCode.TRACK_NOT_FOUND);
+
+        this.stopRadio();
+        this.#radio = { seeds, options: { size: 5, artistLimit: 2, ...options }, filling: null };
+        void this.player.saveQueue(this);
+        await this.#fillRadio();
+
+        if (this.connection && !this.connection.audioResource && this.tracks.length) await this.play();
+    }
+
+    /**
+     * Stops the radio, removing the generated tracks from the queue
+     * @returns {void}
+     */
+    stopRadio() {
+        if (this.#watchDestroyed()) return;
+        const generated = this.tracks.some((m) => m.generated);
+        if (!this.#radio && !generated) return;
+
+        this.#radio = null;
+        if (generated) {
+            this.tracks = this.tracks.filter((m) => !m.generated);
+            this.#invalidatePrefetch();
+        }
+        void this.player.saveQueue(this);
+    }
+
+    /**
+     * If the radio is on
+     * @type {boolean}
+     */
+    get radio() {
+        return !!this.#radio;
     }
 
     /**
@@ -297,6 +490,12 @@ class Queue<T = unknown> {
         if (!this.connection) return false;
         this.#lastVolume = amount;
         this.options.initialVolume = amount;
+        void this.player.saveQueue(this);
+        // the volume of an untranscoded stream cannot be changed
+        if (this.#passthrough && amount !== 100) {
+            void this.#transcode();
+            return true;
+        }
         return this.connection.setVolume(amount);
     }
     /**
@@ -310,6 +509,8 @@ class Queue<T = unknown> {
             throw new PlayerError(`Unknown repeat mode "${mode}"!`, ErrorStatusCode.UNKNOWN_REPEAT_MODE);
         if (mode === this.repeatMode) return false;
         this.repeatMode = mode;
+        this.#invalidatePrefetch();
+        void this.player.saveQueue(this);
         return true;
     }
 
@@ -334,12 +535,7 @@ class Queue<T = unknown> {
     get streamTime() {
         if (this.#watchDestroyed()) return;
         if (!this.connection) return 0;
-        const playbackTime = this._streamTime + this.connection.streamTime;
-        const NC = this._activeFilters.includes("nightcore") ? 1.25 : null;
-        const VW = this._activeFilters.includes("vaporwave") ? 0.8 : null;
-
-        if (NC && VW) return playbackTime * (NC + VW);
-        return NC ? playbackTime * NC : VW ? playbackTime * VW : playbackTime;
+        return this._streamTime + this.connection.streamTime * this.playbackRate;
     }
 
     set streamTime(time: number) {
@@ -347,6 +543,83 @@ class Queue<T = unknown> {
         this.seek(time);
     }
 
+    /**
+     * The effective playback rate resulting from the speed, pitch and enabled filters
+     * @type {number}
+     */
+    get playbackRate() {
+        if (this.#watchDestroyed()) return;
+        return AudioFilters.rateOf(this.#createEncoderArgs().join(" "));
+    }
+
+    /**
+     * The playback speed
+     * @type {number}
+     */
+    get speed() {
+        if (this.#watchDestroyed()) return;
+        return this._speed;
+    }
+
+    set speed(rate: number) {
+        this.setSpeed(rate);
+    }
+
+    /**
+     * The pitch shift in semitones
+     * @type {number}
+     */
+    get pitch() {
+        if (this.#watchDestroyed()) return;
+        return this._pitch;
+    }
+
+    set pitch(semitones: number) {
+        this.setPitch(semitones);
+    }
+
+    /**
+     * Sets the playback speed without changing the pitch
+     * @param {number} rate The speed, `1` being the normal speed
+     * @returns {Promise<void>}
+     */
+    async setSpeed(rate: number) {
+        if (this.#watchDestroyed()) return;
+        if (typeof rate !== "number" || rate <= 0 || !Number.isFinite(rate)) throw new PlayerError(`Invalid speed "${rate}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        if (rate === this._speed) return;
+
+        const streamTime = this.streamTime;
+        this._speed = rate;
+        if (!this.playing || !this.current) return;
+
+        return await this.play(this.current, {
+            immediate: true,
+            filtersUpdate: true,
+            seek: streamTime
+        });
+    }
+
+    /**
+     * Shifts the pitch without changing the playback speed
+     * @param {number} semitones The amount of semitones, `0` being the original pitch
+     * @returns {Promise<void>}
+     */
+    async setPitch(semitones: number) {
+        if (this.#watchDestroyed()) return;
+        if (typeof semitones !== "number" || !Number.isFinite(semitones)) throw new PlayerError(`Invalid pitch "${semitones}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        if (semitones === this._pitch) return;
+
+        const streamTime = this.streamTime;
+        this._pitch = semitones;
+        if (!this.playing || !this.current) return;
+
+        return await this.play(this.current, {
+            immediate: true,
+            filtersUpdate: true,
+            seek: streamTime
+        });
+    }
+
     /**
      * Returns enabled filters
      * @returns {AudioFilters}
@@ -366,7 +639,8 @@ class Queue<T = unknown> {
     }
 
     /**
-     * Sets filters
+     * Sets filters. The bassboost, treble and mono filters are applied after the others, without restarting FFmpeg, unless
+     * they were redefined with `AudioFilters.define()` into another form than their default one.
      * @param {QueueFilters} filters Queue filters
      * @returns {Promise<void>}
      */
@@ -375,12 +649,13 @@ class Queue<T = unknown> {
         if (!filters || !Object.keys(filters).length) {
             // reset filters
             const streamTime = this.streamTime;
+            const restart = this.#requiresRestart([]);
             this._activeFilters = [];
+            if (!restart) return this.#updatePCMFilters();
             return await this.play(this.current, {
                 immediate: true,
                 filtersUpdate: true,
-                seek: streamTime,
-                encoderArgs: []
+                seek: streamTime
             });
         }
 
@@ -392,18 +667,96 @@ class Queue<T = unknown> {
 
         if (this._activeFilters.join("") === _filters.join("")) return;
 
-        const newFilters = AudioFilters.create(_filters).trim();
         const streamTime = this.streamTime;
+        const restart = this.#requiresRestart(_filters);
         this._activeFilters = _filters;
+        if (!restart) return this.#updatePCMFilters();
 
         return await this.play(this.current, {
             immediate: true,
             filtersUpdate: true,
-            seek: streamTime,
-            encoderArgs: !_filters.length ? undefined : ["-af", newFilters]
+            seek: streamTime
         });
     }
 
+    /**
+     * Returns the gain of each equalizer band
+     * @returns {EqualizerBand[]}
+     */
+    getEqualizer(): EqualizerBand[] {
+        if (this.#watchDestroyed()) return;
+        return this._equalizer.map((gain, band) => ({ band, gain }));
+    }
+
+    /**
+     * Sets the equalizer. Bands given as `EqualizerBand[]` are applied on top of the current gains, while an array of gains or a preset name replaces every band.
+     * @param {EqualizerBand[]|number[]|string} bands The bands, the gain in dB of each band or the name of a preset
+     * @returns {Promise<void>}
+     */
+    async setEqualizer(bands: EqualizerBand[] | number[] | string) {
+        if (this.#watchDestroyed()) return;
+        let gains: number[];
+
+        if (typeof bands === "string") {
+            gains = Equalizer.getPreset(bands);
+            if (!gains) throw new PlayerError(`Unknown equalizer preset "${bands}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        } else if (Array.isArray(bands)) {
+            gains = Equalizer.resolve(bands, (bands as unknown[]).every((m) => typeof m === "number") ? [] : this._equalizer);
+        } else {
+            throw new PlayerError(`Expected equalizer bands or preset name, received "${typeof bands}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        }
+
+        if (gains.join() === this._equalizer.join()) return;
+        this._equalizer = gains;
+        await this.#updatePCMFilters();
+    }
+
+    /**
+     * The stereo balance, from `-1` (left) to `1` (right)
+     * @type {number}
+     */
+    get balance() {
+        if (this.#watchDestroyed()) return;
+        return this._balance;
+    }
+
+    set balance(balance: number) {
+        this.setBalance(balance);
+    }
+
+    /**
+     * Sets the stereo balance
+     * @param {number} balance The balance, from `-1` (left only) to `1` (right only), `0` being centered
+     * @returns {void}
+     */
+    setBalance(balance: number) {
+        if (this.#watchDestroyed()) return;
+        if (typeof balance !== "number" || isNaN(balance) || balance < -1 || balance > 1) throw new PlayerError(`Invalid balance "${balance}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        if (balance === this._balance) return;
+
+        this._balance = balance;
+        void this.#updatePCMFilters();
+    }
+
+    /**
+     * Sets the loudness every track gets normalised to
+     * @param {number|null} target The loudness in LUFS (e.g. `-14`), `null` to disable the normalisation
+     * @returns {Promise<void>}
+     */
+    async setLoudnessTarget(target: number | null) {
+        if (this.#watchDestroyed()) return;
+        if (target !== null && (typeof target !== "number" || !Number.isFinite(target) || target > 0)) throw new PlayerError(`Invalid loudness target "${target}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+        if (target === (this.options.loudnessTarget ?? null)) return;
+
+        this.options.loudnessTarget = target ?? undefined;
+        const current = this.playing ? this.current : null;
+        this.#loudness = current && target !== null ? this.#createLoudnessData(current) : null;
+        if (this.#pcmFilterer) this.#pcmFilterer.meter = this.#loudness?.meter ?? null;
+        if (this.#loudness) this.#startMonitor();
+
+        await this.#updatePCMFilters();
+    }
+
     /**
      * Seeks to the given time
      * @param {number} position The position
@@ -412,8 +765,9 @@ class Queue<T = unknown> {
     async seek(position: number) {
         if (this.#watchDestroyed()) return;
         if (!this.playing || !this.current) return false;
+        if (this.current.live) throw new PlayerError("Cannot seek a live stream", ErrorStatusCode.NOT_SEEKABLE);
         if (position < 1) position = 0;
-        if (position >= this.current.durationMS) return this.skip();
+        if (this.current.durationMS && position >= this.current.durationMS) return this.skip();
 
         await this.play(this.current, {
             immediate: true,
@@ -444,6 +798,9 @@ class Queue<T = unknown> {
         if (this.#watchDestroyed()) return;
         this.tracks = [];
         this.previousTracks = [];
+        this.#loadingPlaylists.clear();
+        this.#invalidatePrefetch();
+        void this.player.saveQueue(this);
     }
 
     /**
@@ -468,6 +825,8 @@ class Queue<T = unknown> {
             [this.tracks[i], this.tracks[j]] = [this.tracks[j], this.tracks[i]];
         }
 
+        this.#invalidatePrefetch();
+        void this.player.saveQueue(this);
         return true;
     }
 
@@ -491,6 +850,10 @@ class Queue<T = unknown> {
             }
         }
 
+        if (trackFound) {
+            this.#invalidatePrefetch();
+            void this.player.saveQueue(this);
+        }
         return trackFound;
     }
 
@@ -548,14 +911,16 @@ class Queue<T = unknown> {
 
         this.tracks.splice(index, 0, track);
 
+        this.#invalidatePrefetch();
         this.player.emit("trackAdd", this, track);
+        void this.player.saveQueue(this);
     }
 
     /**
      * @typedef {object} PlayerTimestamp
      * @property {string} current The current progress
-     * @property {string} end The total time
-     * @property {number} progress Progress in %
+     * @property {string} end The total time, `LIVE` for live streams
+     * @property {number} progress Progress in %, always `100` for live streams
      */
 
     /**
@@ -568,12 +933,13 @@ class Queue<T = unknown> {
         const totalTime = this.current.durationMS;
 
         const currentTimecode = Util.buildTimeCode(Util.parseMS(currentStreamTime));
+        if (this.current.live) return { current: currentTimecode, end: "LIVE", progress: 100 };
         const endTimecode = Util.buildTimeCode(Util.parseMS(totalTime));
 
         return {
             current: currentTimecode,
             end: endTimecode,
-            progress: Math.round((currentStreamTime / totalTime) * 100)
+            progress: totalTime ? Math.round((currentStreamTime / totalTime) * 100) : 0
         };
     }
 
@@ -590,6 +956,11 @@ class Queue<T = unknown> {
         const indicator = typeof options.indicator === "string" && options.indicator.length > 0 ? options.indicator : "🔘";
         const line = typeof options.line === "string" && options.line.length > 0 ? options.line : "▬";
 
+        if (this.current.live) {
+            const bar = `${line.repeat(length - 1)}${indicator}`;
+            return options.timecodes ? `${this.getPlayerTimestamp().current} ┃ ${bar} ┃ LIVE` : bar;
+        }
+
         if (index >= 1 && index <= length) {
             const bar = line.repeat(length - 1).split("");
             bar.splice(index, 0, indicator);
@@ -615,7 +986,7 @@ class Queue<T = unknown> {
      */
     get totalTime(): number {
         if (this.#watchDestroyed()) return;
-        return this.tracks.length > 0 ? this.tracks.map((t) => t.durationMS).reduce((p, c) => p + c) : 0;
+        return this.tracks.length > 0 ? this.tracks.map((t) => t.durationMS).reduce((p, c) => p + c) / this.playbackRate : 0;
     }
 
     /**
@@ -631,82 +1002,677 @@ class Queue<T = unknown> {
         const track = options.filtersUpdate && !options.immediate ? src || this.current : src ?? this.tracks.shift();
         if (!track) return;
         this.player.emit("debug", this, "Received play request");
+        this.#failure = null;
 
         if (!options.filtersUpdate) {
             this.previousTracks = this.previousTracks.filter((x) => x.id !== track.id);
             this.previousTracks.push(track);
         }
 
-        let stream = null;
-        const customDownloader = typeof this.createStream === "function";
+        const prefetched = this.#prefetched?.stream && this.#prefetched.track === track && !options.filtersUpdate && !options.seek ? this.#prefetched : null;
+        if (prefetched) this.#prefetched = null;
+        else this.#clearPrefetch();
+
+        let stream = prefetched?.stream;
+        if (!stream && !(await this.#resolveTrack(track))) return void this.#playNext(track, options);
+        const passthrough = !stream && this.#canPassthrough(track, options) ? await this.#createOpusStream(track) : null;
+        if (passthrough) {
+            stream = passthrough;
+        } else if (!stream) {
+            stream = await this.#createPCMStream(track, options);
+            if (!stream) return void this.#playNext(track, options);
+            if (this.options.crossfade > 0) stream = stream.pipe(new CrossfadeStream());
+        }
 
-        if (["youtube", "spotify"].includes(track.raw.source)) {
-            if (track.raw.source === "spotify" && !track.raw.engine) {
-                track.raw.engine = await YouTube.search(`${track.author} ${track.title}`, { type: "video" })
-                    .then((x) => x[0].url)
-                    .catch(() => null);
-            }
-            const link = track.raw.source === "spotify" ? track.raw.engine : track.url;
-            if (!link) return void this.play(this.tracks.shift(), { immediate: true });
-
-            if (customDownloader) {
-                stream = (await this.createStream(track, "youtube", this)) ?? null;
-                if (stream)
-                    stream = ytdl
-                        .arbitraryStream(stream, {
-                            opusEncoded: false,
-                            fmt: "s16le",
-                            encoderArgs: options.encoderArgs ?? this._activeFilters.length ? ["-af", AudioFilters.create(this._activeFilters)] : [],
-                            seek: options.seek ? options.seek / 1000 : 0
-                        })
-                        .on("error", (err) => {
-                            return err.message.toLowerCase().includes("premature close") ? null : this.player.emit("error", this, err);
-                        });
-            } else {
-                stream = ytdl(link, {
-                    ...this.options.ytdlOptions,
-                    // discord-ytdl-core
-                    opusEncoded: false,
-                    fmt: "s16le",
-                    encoderArgs: options.encoderArgs ?? this._activeFilters.length ? ["-af", AudioFilters.create(this._activeFilters)] : [],
-                    seek: options.seek ? options.seek / 1000 : 0
-                }).on("error", (err) => {
-                    return err.message.toLowerCase().includes("premature close") ? null : this.player.emit("error", this, err);
-                });
-            }
-        } else {
-            const tryArb = (customDownloader && (await this.createStream(track, track.raw.source || track.raw.engine, this))) || null;
-            const arbitrarySource = tryArb
-                ? tryArb
-                : track.raw.source === "soundcloud"
-                ? await track.raw.engine.downloadProgressive()
-                : typeof track.raw.engine === "function"
-                ? await track.raw.engine()
-                : track.raw.engine;
-            stream = ytdl
-                .arbitraryStream(arbitrarySource, {
-                    opusEncoded: false,
-                    fmt: "s16le",
-                    encoderArgs: options.encoderArgs ?? this._activeFilters.length ? ["-af", AudioFilters.create(this._activeFilters)] : [],
-                    seek: options.seek ? options.seek / 1000 : 0
-                })
-                .on("error", (err) => {
-                    return err.message.toLowerCase().includes("premature close") ? null : this.player.emit("error", this, err);
-                });
+        const crossfader = stream instanceof CrossfadeStream ? stream : null;
+        // restarted streams keep measuring the same track
+        if (!options.filtersUpdate || this.#loudness?.track !== track) this.#loudness = !passthrough && this.#normalizing ? this.#createLoudnessData(track) : null;
+        this.#pcmFilterer = passthrough ? null : new PCMFilterer(this.#createPCMFilterOptions());
+        if (this.#pcmFilterer) {
+            this.#pcmFilterer.meter = this.#loudness?.meter ?? null;
+            stream = stream.pipe(this.#pcmFilterer);
         }
 
         const resource: AudioResource<Track> = this.connection.createStream(stream, {
-            type: StreamType.Raw,
-            data: track
+            type: passthrough ? StreamType.WebmOpus : StreamType.Raw,
+            data: track,
+            inlineVolume: !passthrough
         });
 
         if (options.seek) this._streamTime = options.seek;
+        // the head of the next track has already been mixed into the previous one
+        else if (prefetched?.attached) this._streamTime = (this.#crossfader?.incomingTime ?? 0) * this.playbackRate;
+        this.#crossfader = crossfader;
+        this.#passthrough = !!passthrough;
         this._filtersUpdate = options.filtersUpdate;
         this.setVolume(this.options.initialVolume);
 
-        setTimeout(() => {
-            this.connection.playStream(resource);
-        }, this.#getBufferingTimeout()).unref();
+        setTimeout(
+            () => {
+                this.connection.playStream(resource);
+            },
+            prefetched ? 0 : this.#getBufferingTimeout()
+        ).unref();
+    }
+
+    /**
+     * Creates the PCM (s16le) stream of the given track
+     * @param {Track} track The track
+     * @param {PlayOptions} [options={}] The play options
+     * @returns {Promise<Readable>}
+     * @private
+     */
+    async #createPCMStream(track: Track, options: PlayOptions = {}): Promise<Readable> {
+        if (!(await this.#resolveTrack(track))) return null;
+        const customDownloader = typeof this.createStream === "function";
+        const encoderArgs = options.encoderArgs ?? this.#createEncoderArgs();
+        const rate = AudioFilters.rateOf(encoderArgs.join(" "));
+        // piped inputs are seeked on the output, whose timeline is affected by the playback rate
+        const ffmpegOptions = (piped = true) => ({
+            opusEncoded: false,
+            fmt: "s16le",
+            encoderArgs,
+            // live streams always start at the live edge
+            seek: options.seek && !track.live ? options.seek / 1000 / (piped ? rate : 1) : 0
+        });
+        const onError = (err: Error) => this.#handleStreamError(track, err);
+        // the alternate source of a failed track
+        const alternate = this.#recovery?.track === track ? this.#recovery.alternate : null;
+
+        // the audio of extractor tracks is requested every time, since streams and signed urls do not last
+        const extractor = track.raw.extractor && !alternate ? this.player.extractors.get(track.raw.extractor) : null;
+        if (extractor) {
+            const customStream = customDownloader ? await this.createStream(track, track.raw.source, this) : null;
+            if (customStream) return ytdl.arbitraryStream(customStream, ffmpegOptions()).on("error", onError);
+
+            const audio = await extractor.stream(track, { seek: options.seek }).catch((err: Error) => void onError(err));
+            if (!audio) return null;
+
+            return ytdl.arbitraryStream(audio.stream, { ...ffmpegOptions(typeof audio.stream !== "string"), ...(audio.seeked ? { seek: 0 } : {}) }).on("error", onError);
+        }
+
+        const bridged = BRIDGED_SOURCES.includes(track.raw.source);
+        if (track.raw.source === "youtube" || bridged || alternate) {
+            const match = alternate ?? (bridged ? await this.player.bridge.resolve(track).catch(() => null as BridgeCandidate) : null);
+            const link = bridged || alternate ? match?.url : track.url;
+            if (!link) return null;
+
+            if (match?.source === "soundcloud") {
+                const song = await soundcloud.getSongInfo(link).catch(Util.noop);
+                if (!song) return null;
+
+                return ytdl.arbitraryStream(await song.downloadProgressive(), ffmpegOptions()).on("error", onError);
+            }
+
+            const customStream = customDownloader ? await this.createStream(track, "youtube", this) : null;
+            if (customStream) return ytdl.arbitraryStream(customStream, ffmpegOptions()).on("error", onError);
+
+            // the info fetched by the search or a previous playback is reused
+            const info = await this.player.cache.getInfo(link, this.options.ytdlOptions).catch((err: Error) => void onError(err));
+            if (!info) return null;
+            this.#estimateLoudness(track, info);
+
+            return ytdl.arbitraryStream(ytdl.downloadFromInfo(info, this.options.ytdlOptions).on("error", onError), ffmpegOptions()).on("error", onError);
+        }
+
+        const tryArb = (customDownloader && (await this.createStream(track, track.raw.source || track.raw.engine, this))) || null;
+        if (!tryArb && track.raw.source === "local") {
+            // the root may have changed since the track was resolved
+            const file = await LocalFiles.resolve(track.url, this.player.options.localRoot).catch((err: Error) => void onError(err));
+            if (!file) return null;
+
+            return ytdl.arbitraryStream(createReadStream(file), ffmpegOptions()).on("error", onError);
+        }
+        if (!tryArb && track.raw.source === "radio") {
+            const radio = await this.#createRadioStream(track).catch((err: Error) => void onError(err));
+            if (!radio) return null;
+
+            // the connection to the station stays open until its stream is destroyed
+            return ytdl
+                .arbitraryStream(radio, ffmpegOptions())
+                .on("error", onError)
+                .once("close", () => radio.destroy());
+        }
+        if (!tryArb && !track.raw.engine) {
+            // tracks rebuilt from JSON do not carry their engine
+            track.raw.engine = track.raw.source === "soundcloud" ? await soundcloud.getSongInfo(track.url).catch(Util.noop) : track.url;
+            if (!track.raw.engine) return null;
+        }
+        const arbitrarySource = tryArb
+            ? tryArb
+            : track.raw.source === "soundcloud"
+            ? await track.raw.engine.downloadProgressive()
+            : typeof track.raw.engine === "function"
+            ? await track.raw.engine()
+            : track.raw.engine;
+
+        return ytdl.arbitraryStream(arbitrarySource, ffmpegOptions(typeof arbitrarySource !== "string")).on("error", onError);
+    }
+
+    /**
+     * Fetches the remaining pages of a lazy playlist, inserting them after its previous tracks.
+     * Stops once the queue is cleared or destroyed.
+     * @param {Playlist} playlist The playlist
+     * @returns {Promise<void>}
+     * @private
+     */
+    async #loadPlaylist(playlist: Playlist) {
+        this.#loadingPlaylists.add(playlist);
+        this.player.emit("playlistProgress", this, playlist, playlist.tracks.length, playlist.totalTracks);
+
+        while (!playlist.complete) {
+            const tracks = await playlist.fetchNext().catch((err: Error) => void this.player.emit("error", this, err));
+            if (!tracks || !this.#loadingPlaylists.has(playlist)) break;
+
+            if (tracks.length) {
+                let index = this.tracks.length;
+                while (index > 0 && this.tracks[index - 1].playlist !== playlist) index--;
+
+                this.tracks.splice(index || this.#requestedEnd, 0, ...tracks);
+                this.#invalidatePrefetch();
+                this.player.emit("tracksAdd", this, tracks);
+                void this.player.saveQueue(this);
+            }
+
+            this.player.emit("playlistProgress", this, playlist, playlist.tracks.length, playlist.totalTracks);
+        }
+
+        this.#loadingPlaylists.delete(playlist);
+    }
+
+    /**
+     * Resolves the given track if it is an entry of a playlist file
+     * @param {Track} track The track
+     * @returns {Promise<boolean>} If the track can be played
+     * @private
+     */
+    async #resolveTrack(track: Track) {
+        if (!PlaylistFiles.isUnresolved(track)) return true;
+        if (!(await PlaylistFiles.resolveTrack(this.player, track))) {
+            this.player.emit("error", this, new PlayerError(`Could not resolve "${track.url || track.title}"`, ErrorStatusCode.TRACK_NOT_FOUND));
+            return false;
+        }
+
+        void this.player.saveQueue(this);
+        return true;
+    }
+
+    /**
+     * Connects to the station of the given radio track, requesting the ICY metadata
+     * @param {Track} track The track
+     * @returns {Promise<Readable>}
+     * @private
+     */
+    async #createRadioStream(track: Track): Promise<Readable> {
+        const res = await Util.request(track.url, { "Icy-MetaData": "1" });
+        const metaInt = parseInt(res.headers["icy-metaint"] as string);
+        if (!metaInt) return res;
+
+        const demuxer = new IcyDemuxer(metaInt);
+        res.on("error", (err) => demuxer.destroy(err));
+
+        return res.pipe(demuxer).on("metadata", (metadata: Record<string, string>) => this.#updateRadioMetadata(track, metadata));
+    }
+
+    /**
+     * Updates the title and author of a radio track from the song currently played by the station
+     * @param {Track} track The track
+     * @param {Record<string, string>} metadata The ICY metadata
+     * @returns {void}
+     * @private
+     */
+    #updateRadioMetadata(track: Track, metadata: Record<string, string>) {
+        if (this.#destroyed || typeof metadata.StreamTitle !== "string") return;
+        const station = (track.raw as Partial<RadioStation>).name ?? track.raw.title;
+        const { author, title } = Radio.parseStreamTitle(metadata.StreamTitle);
+
+        const updated = { title: DiscordUtil.escapeMarkdown(title || station), author: author || station };
+        if (updated.title === track.title && updated.author === track.author) return;
+
+        Object.assign(track, updated);
+        this.player.emit("trackMetadataUpdate", this, track);
+        void this.player.saveQueue(this);
+    }
+
+    /**
+     * Creates the WebM/Opus stream of the given YouTube track, which can be sent to Discord without transcoding
+     * @param {Track} track The track
+     * @returns {Promise<Readable>}
+     * @private
+     */
+    async #createOpusStream(track: Track): Promise<Readable> {
+        const info = await this.player.cache.getInfo(track.url, this.options.ytdlOptions).catch(Util.noop);
+        if (!info || info.videoDetails.isLiveContent) return null;
+
+        const format = info.formats
+            .filter((m) => m.container === "webm" && m.codecs === "opus" && m.audioSampleRate === "48000" && !m.hasVideo)
+            .sort((a, b) => (b.audioBitrate ?? 0) - (a.audioBitrate ?? 0))[0];
+        if (!format) return null;
+
+        this.player.emit("debug", this, `Streaming "${track.title}" without transcoding`);
+        return ytdl.downloadFromInfo(info, { ...this.options.ytdlOptions, format }).on("error", (err: Error) => this.#handleStreamError(track, err));
+    }
+
+    /**
+     * Checks if the given track can be played without transcoding
+     * @param {Track} track The track
+     * @param {PlayOptions} [options={}] The play options
+     * @returns {boolean}
+     * @private
+     */
+    #canPassthrough(track: Track, options: PlayOptions = {}) {
+        if (!this.options.opusPassthrough || track.raw.source !== "youtube" || track.raw.extractor || typeof this.createStream === "function") return false;
+        if (this.#recovery?.track === track && this.#recovery.alternate) return false;
+        if (options.seek || options.encoderArgs || this.options.crossfade > 0) return false;
+        return !this.#requiresTranscoding();
+    }
+
+    /**
+     * Checks if the current filters, equalizer or volume alter the audio
+     * @returns {boolean}
+     * @private
+     */
+    #requiresTranscoding() {
+        if (this._activeFilters.length || this._speed !== 1 || this._pitch !== 0 || this._balance !== 0 || this.#normalizing) return true;
+        return this._equalizer.some((m) => m !== 0) || (this.options.initialVolume ?? 100) !== 100;
+    }
+
+    /**
+     * Restarts the current track through the transcoding pipeline at the current position
+     * @returns {Promise<void>}
+     * @private
+     */
+    async #transcode() {
+        if (!this.playing || !this.current) return;
+        this.#passthrough = false;
+
+        await this.play(this.current, {
+            immediate: true,
+            filtersUpdate: true,
+            seek: this.streamTime
+        }).catch((err) => void this.player.emit("error", this, err));
+    }
+
+    /**
+     * Creates the FFmpeg args of the enabled filters which cannot be applied on the PCM stream
+     * @returns {string[]}
+     * @private
+     */
+    #createEncoderArgs() {
+        const ffmpegFilters = this._activeFilters.filter((m) => !getPCMFilter(m));
+        const filters = [AudioFilters.create(ffmpegFilters), AudioFilters.speed(this._speed), AudioFilters.pitch(this._pitch)].filter((m) => !!m).join(",");
+        return filters ? ["-af", filters] : [];
+    }
+
+    /**
+     * Creates the options of the filters applied on the PCM stream
+     * @returns {PCMFilterOptions}
+     * @private
+     */
+    #createPCMFilterOptions(): PCMFilterOptions {
+        const filters = this._activeFilters.map(getPCMFilter).filter((m) => !!m);
+
+        return {
+            equalizer: [...this._equalizer],
+            bass: filters.reduce((gain, m) => gain + (m.bass ?? 0), 0),
+            treble: filters.reduce((gain, m) => gain + (m.treble ?? 0), 0),
+            mono: filters.some((m) => m.mono),
+            balance: this._balance,
+            gain: this.#loudness?.gain ?? 0
+        };
+    }
+
+    /**
+     * If the loudness normalisation is enabled
+     * @type {boolean}
+     * @private
+     */
+    get #normalizing() {
+        return typeof this.options.loudnessTarget === "number";
+    }
+
+    /**
+     * Creates the loudness measurement of the given track, using the known loudness of the track if any
+     * @param {Track} track The track
+     * @returns {LoudnessData}
+     * @private
+     */
+    #createLoudnessData(track: Track): LoudnessData {
+        // tracks with a known loudness are not measured again
+        if (loudnessCache.has(track.url)) return { track, meter: null, gain: this.#getNormalizationGain(loudnessCache.get(track.url)) };
+        return { track, meter: new LoudnessMeter(), gain: null };
+    }
+
+    /**
+     * Returns the gain which brings the given loudness to the loudness target
+     * @param {number} loudness The loudness in LUFS
+     * @returns {number}
+     * @private
+     */
+    #getNormalizationGain(loudness: number) {
+        if (!Number.isFinite(loudness)) return 0;
+        return Math.max(-MAX_NORMALIZATION_GAIN, Math.min(MAX_NORMALIZATION_GAIN, this.options.loudnessTarget - loudness));
+    }
+
+    /**
+     * Estimates the loudness of a YouTube track from its info
+     * @param {Track} track The track
+     * @param {videoInfo} info The video info
+     * @returns {void}
+     * @private
+     */
+    #estimateLoudness(track: Track, info: videoInfo) {
+        const loudnessDb = info?.player_response?.playerConfig?.audioConfig?.loudnessDb;
+        if (typeof loudnessDb !== "number" || loudnessCache.has(track.url)) return;
+
+        this.#setCachedLoudness(track.url, YOUTUBE_REFERENCE_LOUDNESS + loudnessDb);
+        if (this.#loudness?.track !== track) return;
+
+        this.#stopMeasuring();
+        if (this.#loudness.gain !== null) return;
+
+        this.#loudness.gain = this.#getNormalizationGain(loudnessCache.get(track.url));
+        this.#pcmFilterer?.configure(this.#createPCMFilterOptions());
+    }
+
+    /**
+     * Applies the measured loudness once enough audio of a track with unknown loudness was played
+     * @returns {void}
+     * @private
+     */
+    #monitorLoudness() {
+        const loudness = this.#loudness;
+        if (!loudness?.meter || loudness.gain !== null || loudness.meter.duration < LOUDNESS_MEASURE_TIME) return;
+
+        loudness.gain = this.#getNormalizationGain(loudness.meter.integrated);
+        this.#pcmFilterer?.configure(this.#createPCMFilterOptions());
+        // the loudness of live tracks is never cached
+        if (loudness.track.live) this.#stopMeasuring();
+    }
+
+    /**
+     * Stops measuring the loudness of the current track
+     * @returns {void}
+     * @private
+     */
+    #stopMeasuring() {
+        if (this.#loudness) this.#loudness.meter = null;
+        if (this.#pcmFilterer) this.#pcmFilterer.meter = null;
+    }
+
+    /**
+     * Caches the loudness measured while the given track was playing
+     * @param {Track} track The track
+     * @returns {void}
+     * @private
+     */
+    #cacheLoudness(track: Track) {
+        const loudness = this.#loudness;
+        if (!loudness?.meter || loudness.track !== track || track.live || loudness.meter.duration < LOUDNESS_CACHE_TIME) return;
+
+        const integrated = loudness.meter.integrated;
+        if (Number.isFinite(integrated)) this.#setCachedLoudness(track.url, integrated);
+    }
+
+    /**
+     * Stores the loudness of a track url, evicting the oldest entries
+     * @param {string} url The track url
+     * @param {number} loudness The loudness in LUFS
+     * @returns {void}
+     * @private
+     */
+    #setCachedLoudness(url: string, loudness: number) {
+        loudnessCache.delete(url);
+        loudnessCache.set(url, loudness);
+        while (loudnessCache.size > LOUDNESS_CACHE_SIZE) loudnessCache.delete(loudnessCache.firstKey());
+    }
+
+    /**
+     * Starts monitoring the playback, if any feature needs it
+     * @returns {void}
+     * @private
+     */
+    #startMonitor() {
+        const prefetch = this.options.prefetch || this.options.crossfade > 0;
+        if (this.#monitorInterval || (!prefetch && !this.#normalizing)) return;
+
+        this.#monitorInterval = setInterval(() => {
+            this.#monitorLoudness();
+            if (prefetch) this.#monitorPlayback();
+        }, 250).unref();
+    }
+
+    /**
+     * Applies the PCM filters on the current stream, switching to the transcoding pipeline if needed
+     * @returns {Promise<void>|void}
+     * @private
+     */
+    #updatePCMFilters() {
+        void this.player.saveQueue(this);
+        if (this.#passthrough) return this.#requiresTranscoding() ? this.#transcode() : undefined;
+        this.#pcmFilterer?.configure(this.#createPCMFilterOptions());
+    }
+
+    /**
+     * Checks if switching to the given filters requires the FFmpeg stream to be restarted
+     * @param {FiltersName[]} filters The filters
+     * @returns {boolean}
+     * @private
+     */
+    #requiresRestart(filters: FiltersName[]) {
+        if (!this.#pcmFilterer || this.#pcmFilterer.destroyed) return true;
+        const ffmpegFilters = (list: FiltersName[]) => list.filter((m) => !getPCMFilter(m)).join();
+        return ffmpegFilters(filters) !== ffmpegFilters(this._activeFilters);
+    }
+
+    /**
+     * Returns the track which will be played after the current one, if it is known in advance
+     * @returns {Track}
+     * @private
+     */
+    #peekNextTrack() {
+        if (this.repeatMode === QueueRepeatMode.AUTOPLAY) return null;
+        if (this.repeatMode === QueueRepeatMode.TRACK) return this.current;
+        if (this.tracks.length) return this.tracks[0];
+        return this.repeatMode === QueueRepeatMode.QUEUE ? this.current : null;
+    }
+
+    /**
+     * Prefetches the next track shortly before the end of the current one and starts the crossfade
+     * @returns {void}
+     * @private
+     */
+    #monitorPlayback() {
+        const crossfade = this.options.crossfade > 0 ? this.options.crossfade : 0;
+        const current = this.current;
+        if (!current?.durationMS || !this.connection?.audioResource || this.connection.paused) return;
+
+        // in real time, unlike the track durations
+        const remaining = (current.durationMS - this.streamTime) / this.playbackRate;
+        this.#invalidatePrefetch();
+
+        if (!this.#prefetched) {
+            const next = this.#peekNextTrack();
+            if (!next || remaining > crossfade + PREFETCH_TIME) return;
+
+            const prefetched: PrefetchData = { track: next, stream: null, attached: false };
+            this.#prefetched = prefetched;
+
+            void this.#createPCMStream(next).then((stream) => {
+                if (!stream) return;
+                if (crossfade) stream = stream.pipe(new CrossfadeStream());
+                if (this.#prefetched !== prefetched || this.#destroyed) return void stream.destroy();
+                prefetched.stream = stream;
+                // start buffering
+                stream.read(0);
+            });
+
+            return;
+        }
+
+        const next = this.#prefetched;
+        if (crossfade && this.#crossfader && !next.attached && next.stream instanceof CrossfadeStream && remaining <= crossfade) {
+            // short tracks are not worth fading
+            if (next.track.durationMS < crossfade * 2 || current.durationMS < crossfade * 2) return;
+            this.#crossfader.fadeInto(next.stream, crossfade);
+            next.attached = true;
+        }
+    }
+
+    /**
+     * Drops the prefetched track if it is no longer the next one, e.g. after the queue was reordered
+     * @returns {void}
+     * @private
+     */
+    #invalidatePrefetch() {
+        if (this.#prefetched && !this.#prefetched.attached && this.#prefetched.track !== this.#peekNextTrack()) this.#clearPrefetch();
+    }
+
+    /**
+     * Drops the prefetched track (if any)
+     * @returns {void}
+     * @private
+     */
+    #clearPrefetch() {
+        if (!this.#prefetched) return;
+        this.#prefetched.stream?.destroy();
+        this.#prefetched = null;
+    }
+
+    /**
+     * Handles the errors of the streams of a track. Failures of the current track are recovered once the audio player stops.
+     * @param {Track} track The track
+     * @param {Error} error The error
+     * @returns {void}
+     * @private
+     */
+    #handleStreamError(track: Track, error: Error): void {
+        if (this.#destroyed) return;
+        if (!this.playing || this.connection?.audioResource?.metadata !== track || this._trackSkipped || this._filtersUpdate) {
+            // the stream of the prefetched track is created again once it plays
+            if (this.#prefetched?.track === track && !this.#prefetched.attached) this.#clearPrefetch();
+            return void (error.message.toLowerCase().includes("premature close") ? null : this.player.emit("error", this, error));
+        }
+
+        if (!this.#failure) this.#failure = { track, error };
+    }
+
+    /**
+     * Returns the error of a track which stopped before its end
+     * @param {Track} track The track
+     * @param {number} position The position it stopped at
+     * @returns {Error} The error, `null` if the track ended normally
+     * @private
+     */
+    #getFailure(track: Track, position: number): Error {
+        const error = this.#failure?.track === track ? this.#failure.error : null;
+        this.#failure = null;
+        if (!track || this._trackSkipped || this.connection.voiceConnection?.state.status === VoiceConnectionStatus.Destroyed) return null;
+
+        // a live stream ending cleanly is the end of the broadcast, only its errors are retried
+        if (track.live) return error;
+
+        const alternate = this.#recovery?.track === track ? this.#recovery.alternate : null;
+        const duration = alternate ? alternate.duration : track.durationMS;
+        if (!duration) return error;
+
+        const crossfade = this.options.crossfade > 0 ? this.options.crossfade : 0;
+        if (position >= duration - EARLY_END_TOLERANCE - crossfade) return null;
+        if (error) return error;
+
+        // the audio player stops once the stream stops providing audio, the duration of other sources may not be the one of their stream
+        if (!alternate && !STREAM_DURATION_SOURCES.includes(track.raw.source)) return null;
+        return new PlayerError(`The stream of "${track.title}" stopped at ${Util.buildTimeCode(Util.parseMS(position))}`, ErrorStatusCode.STREAM_ERROR);
+    }
+
+    /**
+     * Resumes a failed track where it stopped, until the retries run out
+     * @param {Track} track The track
+     * @param {Error} error The error
+     * @param {number} position The position it stopped at
+     * @returns {Promise<boolean>} If the track is resumed
+     * @private
+     */
+    async #recover(track: Track, error: Error, position: number) {
+        const maxRetries = this.options.maxRetries > 0 ? this.options.maxRetries : 0;
+        const recovery = this.#recovery?.track === track ? this.#recovery : { track, attempts: 0, alternate: null as BridgeCandidate };
+        this.#recovery = recovery;
+        if (recovery.attempts >= maxRetries) {
+            this.#recovery = null;
+            this.player.emit("trackFailed", this, track, error);
+            return false;
+        }
+
+        recovery.attempts++;
+        // the last attempt plays the track from another source if there is one, the previous ones resolve it again
+        const alternate = recovery.attempts === maxRetries ? await this.#findAlternate(track) : null;
+        if (alternate) recovery.alternate = alternate;
+        else await this.#invalidateSource(track);
+
+        this.player.emit("trackRetry", this, track, error, recovery.attempts);
+        this.player.emit("debug", this, `Resuming "${track.title}" at ${position}ms${alternate ? ` from ${alternate.url}` : ""} (${recovery.attempts}/${maxRetries})`);
+        await Util.wait(RETRY_DELAY * recovery.attempts);
+        // the queue may have moved on meanwhile
+        if (this.#destroyed || this.#recovery !== recovery || this.connection.audioResource) return true;
+
+        this.#retrying = true;
+        await this.play(track, { immediate: true, seek: position }).catch((err: Error) => {
+            this.#retrying = false;
+            this.#recovery = null;
+            this.player.emit("trackFailed", this, track, err);
+        });
+
+        return true;
+    }
+
+    /**
+     * Plays the next track once a track could not be played. A failed track being resumed uses up another attempt instead.
+     * @param {Track} track The track
+     * @param {PlayOptions} options The play options
+     * @returns {Promise<void>}
+     * @private
+     */
+    async #playNext(track: Track, options: PlayOptions) {
+        if (this.#retrying && this.#recovery?.track === track) {
+            this.#retrying = false;
+            const error = new PlayerError(`Could not create the stream of "${track.title}"`, ErrorStatusCode.STREAM_ERROR);
+            if (await this.#recover(track, error, options.seek ?? 0)) return;
+        }
+
+        return this.play(this.tracks.shift(), { immediate: true });
+    }
+
+    /**
+     * Searches another source of a failed track on the bridge source
+     * @param {Track} track The track
+     * @returns {Promise<BridgeCandidate>} The source, `null` if none matches
+     * @private
+     */
+    async #findAlternate(track: Track) {
+        if (track.live || ["local", "radio"].includes(track.raw.source)) return null;
+
+        const bridged = BRIDGED_SOURCES.includes(track.raw.source);
+        const current = this.#recovery?.alternate ?? (bridged ? await this.player.bridge.resolve(track).catch((): BridgeCandidate => null) : null);
+        const failed = [track.url, current?.url];
+        const candidates = await this.player.bridge.search(track).catch((): BridgeCandidate[] => []);
+        const alternate = candidates.find((m) => m.score >= this.player.bridge.options.minScore && !failed.includes(m.url)) ?? null;
+
+        // the next playbacks of the track use it as well
+        if (alternate && bridged) this.player.bridge.setMatch(track, alternate);
+        return alternate;
+    }
+
+    /**
+     * Drops the cached info of the source of a failed track, whose stream urls may have expired
+     * @param {Track} track The track
+     * @returns {Promise<void>}
+     * @private
+     */
+    async #invalidateSource(track: Track) {
+        const bridged = BRIDGED_SOURCES.includes(track.raw.source);
+        const match = this.#recovery?.alternate ?? (bridged ? await this.player.bridge.resolve(track).catch((): BridgeCandidate => null) : null);
+        const url = match || bridged ? match?.url : track.url;
+        if (url) await this.player.cache.deleteInfo(url);
     }
 
     /**
@@ -717,31 +1683,134 @@ class Queue<T = unknown> {
      */
     private async _handleAutoplay(track: Track): Promise<void> {
         if (this.#watchDestroyed()) return;
-        if (!track || ![track.source, track.raw?.source].includes("youtube")) {
-            if (this.options.leaveOnEnd) this.destroy();
-            return void this.player.emit("queueEnd", this);
-        }
-        const info = await YouTube.getVideo(track.url)
-            .then((x) => x.videos[0])
-            .catch(Util.noop);
-        if (!info) {
+        const nextTrack = track
+            ? await Promise.resolve()
+                  .then(() => this.player.autoplay.recommend(track, this))
+                  .catch((error) => void this.player.emit("error", this, error))
+            : null;
+        if (this.#destroyed) return;
+        if (!nextTrack) {
             if (this.options.leaveOnEnd) this.destroy();
             return void this.player.emit("queueEnd", this);
         }
 
-        const nextTrack = new Track(this.player, {
-            title: info.title,
-            url: `https://www.youtube.com/watch?v=${info.id}`,
-            duration: info.durationFormatted ? Util.buildTimeCode(Util.parseMS(info.duration * 1000)) : "0:00",
-            description: "",
-            thumbnail: typeof info.thumbnail === "string" ? info.thumbnail : info.thumbnail.url,
-            views: info.views,
-            author: info.channel.name,
-            requestedBy: track.requestedBy,
-            source: "youtube"
+        this.play(nextTrack, { immediate: true });
+    }
+
+    /**
+     * Adds tracks requested by users, before the tracks generated by the radio
+     * @param {Track[]} tracks The tracks
+     * @returns {void}
+     * @private
+     */
+    #insertRequested(tracks: Track[]) {
+        const index = this.#requestedEnd;
+        this.tracks.splice(index, 0, ...tracks);
+        if (index === 0 && this.tracks.length > tracks.length) this.#invalidatePrefetch();
+    }
+
+    /**
+     * The index after the last track requested by users
+     * @type {number}
+     * @private
+     */
+    get #requestedEnd() {
+        const index = this.tracks.findIndex((m) => m.generated);
+        return index === -1 ? this.tracks.length : index;
+    }
+
+    /**
+     * Returns the tracks the recommendations of the radio are based on
+     * @param {RadioSeed} seed The seed
+     * @param {RadioOptions} options The radio options
+     * @returns {Promise<Track[]>}
+     * @private
+     */
+    async #resolveRadioSeeds(seed: RadioSeed, options: RadioOptions) {
+        if (seed instanceof Track) return [seed];
+        if (seed instanceof Playlist) return [...seed.tracks];
+        if (typeof seed !== "string" || !seed.trim()) throw new PlayerError("Radio seed must be a track, a playlist or a string", ErrorStatusCode.INVALID_ARG_TYPE);
+
+        const { tracks } = await this.player.search(seed, {
+            requestedBy: options.requestedBy ?? this.player.client.user,
+            searchEngine: QueryType.AUTO,
+            limit: RADIO_SEEDS
         });
+        return tracks.slice(0, RADIO_SEEDS);
+    }
 
-        this.play(nextTrack, { immediate: true });
+    /**
+     * Adds generated tracks until the radio has enough upcoming tracks
+     * @returns {Promise<void>}
+     * @private
+     */
+    #fillRadio() {
+        const radio = this.#radio;
+        if (!radio.filling) {
+            radio.filling = this.#generateRadioTracks(radio).then(
+                () => void (radio.filling = null),
+                (error) => {
+                    radio.filling = null;
+                    this.player.emit("error", this, error);
+                }
+            );
+        }
+
+        return radio.filling;
+    }
+
+    /**
+     * Generates the tracks of the radio
+     * @param {RadioData} radio The radio
+     * @returns {Promise<void>}
+     * @private
+     */
+    async #generateRadioTracks(radio: RadioData) {
+        const { size } = radio.options;
+        const provider = radio.options.provider ?? this.player.autoplay;
+        const filter = (track: Track) => this.#acceptsRadioTrack(track, radio.options);
+        const added: Track[] = [];
+        let rejected = false;
+
+        // every recommendation may be rejected, the seeds being tried in turn
+        for (let attempts = 0; attempts < size * 3 && this.tracks.filter((m) => m.generated).length < size; attempts++) {
+            const last = Util.last(this.tracks.filter((m) => m.generated)) ?? this.connection?.audioResource?.metadata ?? Util.last(this.previousTracks);
+            const seed: Track = rejected || !last ? radio.seeds[Math.floor(Math.random() * radio.seeds.length)] : last;
+            const track: Track = await provider.recommend(seed, this, filter);
+            if (this.#destroyed || this.#radio !== radio) return;
+
+            rejected = !track || !filter(track);
+            if (rejected) continue;
+
+            track.generated = true;
+            this.tracks.push(track);
+            added.push(track);
+        }
+
+        if (!added.length) return;
+        this.player.emit("tracksAdd", this, added);
+        void this.player.saveQueue(this);
+    }
+
+    /**
+     * Checks if a recommended track respects the bounds of the radio
+     * @param {Track} track The track
+     * @param {RadioOptions} options The radio options
+     * @returns {boolean}
+     * @private
+     */
+    #acceptsRadioTrack(track: Track, options: RadioOptions) {
+        const { minDuration, maxDuration, artistLimit } = options;
+        // live streams would never end
+        if (track.live) return false;
+        if (minDuration && track.durationMS < minDuration) return false;
+        if (maxDuration && track.durationMS > maxDuration) return false;
+
+        const recent = [...this.previousTracks.slice(-RADIO_ARTIST_WINDOW), ...this.tracks];
+        if (recent.some((m) => SearchRanker.isDuplicate(m, track))) return false;
+
+        const artist = Util.tokenize(track.author).join(" ");
+        return !artistLimit || !artist || recent.filter((m) => Util.tokenize(m.author).join(" ") === artist).length < artistLimit;
     }
 
     *[Symbol.iterator]() {
@@ -764,6 +1833,102 @@ class Queue<T = unknown> {
         };
     }
 
+    /**
+     * Writes the current track and the upcoming tracks as a playlist file
+     * @param {PlaylistFileFormat} [format="m3u"] The format
+     * @returns {string}
+     */
+    export(format: PlaylistFileFormat = "m3u") {
+        if (this.#watchDestroyed()) return;
+        const current = this.connection?.audioResource?.metadata;
+
+        return PlaylistFiles.export(current ? [current, ...this.tracks] : this.tracks, format, this.guild.name);
+    }
+
+    /**
+     * Creates a snapshot of this queue which can be restored later using `Queue.restore()`
+     * @returns {QueueSnapshot}
+     */
+    snapshot(): QueueSnapshot {
+        if (this.#watchDestroyed()) return;
+        const current = this.connection?.audioResource?.metadata;
+        const options = { ...this.options };
+        delete options.ytdlOptions;
+
+        return {
+            guild: this.guild.id,
+            voiceChannel: this.connection?.channel?.id,
+            options,
+            current: current?.toJSON(true) ?? null,
+            streamTime: current ? this.streamTime : 0,
+            tracks: this.tracks.map((m) => m.toJSON(true)),
+            // the current track is pushed to the history again once it is restored
+            previousTracks: this.previousTracks.filter((m) => m.id !== current?.id).map((m) => m.toJSON(true)),
+            repeatMode: this.repeatMode,
+            filters: [...this._activeFilters],
+            equalizer: [...this._equalizer],
+            speed: this._speed,
+            pitch: this._pitch,
+            balance: this._balance,
+            volume: this.options.initialVolume,
+            radio: this.#radio ? this.#snapshotRadio(this.#radio) : null,
+            metadata: typeof this.player.options.serializeMetadata === "function" ? this.player.options.serializeMetadata(this.metadata, this) : undefined
+        };
+    }
+
+    /**
+     * Creates the snapshot of the radio state. The provider is not serializable, `Player.autoplay` is used once restored.
+     * @param {RadioData} radio The radio
+     * @returns {RadioSnapshot}
+     * @private
+     */
+    #snapshotRadio(radio: RadioData): RadioSnapshot {
+        const { size, artistLimit, minDuration, maxDuration } = radio.options;
+
+        return {
+            seeds: radio.seeds.map((m) => m.toJSON(true)),
+            options: { size, artistLimit, minDuration, maxDuration }
+        };
+    }
+
+    /**
+     * Restores the state of this queue from a snapshot, reconnecting and resuming playback where it left off
+     * @param {QueueSnapshot} snapshot The snapshot created by `Queue.snapshot()`
+     * @returns {Promise<Queue>}
+     */
+    async restore(snapshot: QueueSnapshot) {
+        if (this.#watchDestroyed()) return;
+        if (snapshot.guild !== this.guild.id) throw new PlayerError("Snapshot does not belong to this guild", ErrorStatusCode.INVALID_ARG_TYPE);
+
+        this.tracks = (snapshot.tracks ?? []).map((m) => Track.fromJSON(this.player, m));
+        this.previousTracks = (snapshot.previousTracks ?? []).map((m) => Track.fromJSON(this.player, m));
+        this.repeatMode = snapshot.repeatMode ?? QueueRepeatMode.OFF;
+        this._activeFilters = (snapshot.filters ?? []).filter((m) => AudioFilters.names.includes(m as FiltersName));
+        this._equalizer = Equalizer.resolve(snapshot.equalizer ?? []);
+        this._speed = snapshot.speed > 0 ? snapshot.speed : 1;
+        this._pitch = snapshot.pitch || 0;
+        this._balance = Math.max(-1, Math.min(1, snapshot.balance || 0));
+        if (typeof snapshot.volume === "number") this.options.initialVolume = snapshot.volume;
+        // filled by the start of the playback
+        if (snapshot.radio?.seeds?.length) {
+            this.#radio = {
+                seeds: snapshot.radio.seeds.map((m) => Track.fromJSON(this.player, m)),
+                options: { size: 5, artistLimit: 2, ...snapshot.radio.options },
+                filling: null
+            };
+        }
+
+        if (snapshot.voiceChannel && !this.connection) await this.connect(snapshot.voiceChannel);
+        if (snapshot.current && this.connection) {
+            await this.play(Track.fromJSON(this.player, snapshot.current), {
+                immediate: true,
+                seek: snapshot.streamTime || 0
+            });
+        }
+
+        return this;
+    }
+
     /**
      * String representation of this queue
      * @returns {string}
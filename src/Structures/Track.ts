@@ -15,6 +15,9 @@ class Track {
     public views!: number;
     public requestedBy!: User;
     public playlist?: Playlist;
+    public live!: boolean;
+    public searchEngine?: string;
+    public generated = false;
     public readonly raw: RawTrackData = {} as RawTrackData;
     public readonly id: Snowflake = SnowflakeUtil.generate();
 
@@ -86,6 +89,24 @@ class Track {
          * @type {boolean}
          */
 
+        /**
+         * If this track is a live stream, which has no duration and cannot be seeked
+         * @name Track#live
+         * @type {boolean}
+         */
+
+        /**
+         * The engine which found this track in an aggregated search: `youtube`, `soundcloud` or the name of an extractor
+         * @name Track#searchEngine
+         * @type {string}
+         */
+
+        /**
+         * If this track was added by the radio of its queue, rather than requested by a user
+         * @name Track#generated
+         * @type {boolean}
+         */
+
         /**
          * Raw track data
          * @name Track#raw
@@ -111,11 +132,27 @@ class Track {
         this.views = data.views ?? 0;
         this.requestedBy = data.requestedBy;
         this.playlist = data.playlist;
+        this.live = data.live ?? false;
 
         // raw
         Object.defineProperty(this, "raw", { value: Object.assign({}, { source: data.raw?.source ?? data.source }, data.raw ?? data), enumerable: false });
     }
 
+    private _serializeRaw(): Record<string, unknown> {
+        // the data of the YouTube and SoundCloud libraries is fetched again from the track url
+        if (!this.raw.extractor && ["youtube", "soundcloud"].includes(this.source)) return undefined;
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { engine, requestedBy, playlist, ...raw } = this.raw;
+        try {
+            // binary data, such as the pictures of local files, is left out
+            return JSON.parse(JSON.stringify(raw, (key, value) => (value?.type === "Buffer" ? undefined : value)));
+        } catch {
+            // circular data
+            return undefined;
+        }
+    }
+
     /**
      * The queue in which this track is located
      * @type {Queue}
@@ -174,9 +211,41 @@ class Track {
             durationMS: this.durationMS,
             views: this.views,
             requestedBy: this.requestedBy?.id,
-            playlist: hidePlaylist ? null : this.playlist?.toJSON() ?? null
+            playlist: hidePlaylist ? null : this.playlist?.toJSON() ?? null,
+            source: this.source,
+            live: this.live,
+            extractor: this.raw.extractor,
+            generated: this.generated,
+            raw: this._serializeRaw()
         } as TrackJSON;
     }
+
+    /**
+     * Creates a track from its JSON representation
+     * @param {Player} player The player
+     * @param {TrackJSON} data The track data
+     * @returns {Track}
+     */
+    static fromJSON(player: Player, data: TrackJSON) {
+        const track = new Track(player, {
+            title: data.title,
+            description: data.description,
+            author: data.author,
+            url: data.url,
+            thumbnail: data.thumbnail,
+            duration: data.duration,
+            views: data.views,
+            requestedBy: player.client.users.resolve(data.requestedBy),
+            playlist: data.playlist ? new Playlist(player, { ...data.playlist, tracks: [] }) : null,
+            source: data.source ?? "arbitrary",
+            live: data.live ?? false,
+            extractor: data.extractor,
+            raw: data.raw ? { ...data.raw, source: data.source ?? "arbitrary", extractor: data.extractor } : undefined
+        });
+        track.generated = data.generated ?? false;
+
+        return track;
+    }
 }
 
 export default Track;
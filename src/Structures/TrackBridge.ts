@@ -0,0 +1,209 @@
+import { Collection } from "discord.js";
+import YouTube from "youtube-sr";
+import { Player } from "../Player";
+import { BridgeCandidate, BridgeOptions } from "../types/types";
+import { SoundCloudAPI } from "../utils/SoundCloudAPI";
+import { Util } from "../utils/Util";
+import Track from "./Track";
+
+// amount of search results scored for each track
+const CANDIDATES = 10;
+// durations closer than this (in ms) are considered equal, accounting for silences and intros
+const DURATION_TOLERANCE = 3000;
+// duration delta (in ms) beyond the tolerance at which the duration score reaches 0
+const DURATION_RANGE = 30000;
+
+const WEIGHTS = { duration: 0.35, title: 0.3, artist: 0.2, official: 0.15 };
+const PENALTY = 0.3;
+// words of alternative versions, penalized unless the track itself contains them
+const PENALIZED_WORDS = [
+    "cover",
+    "karaoke",
+    "instrumental",
+    "lyrics",
+    "lyric",
+    "nightcore",
+    "slowed",
+    "reverb",
+    "sped",
+    "8d",
+    "remix",
+    "live",
+    "acoustic",
+    "hour",
+    "hours",
+    "loop",
+    "reaction",
+    "tutorial"
+];
+const IGNORED_WORDS = ["feat", "ft", "featuring", "with", "the", "a", "an", "and"];
+
+// share of the given tokens found in the text tokens
+const recall = (tokens: string[], text: string[]) => (tokens.length ? tokens.filter((m) => text.includes(m)).length / tokens.length : 0);
+
+class TrackBridge {
+    public readonly player: Player;
+    public readonly options: BridgeOptions;
+    public readonly cache = new Collection<string, BridgeCandidate>();
+    private _pending = new Collection<string, Promise<BridgeCandidate>>();
+
+    /**
+     * Matches the tracks of Spotify, Deezer and Apple Music, which cannot be streamed, with playable YouTube or SoundCloud tracks
+     * @param {Player} player The player
+     * @param {BridgeOptions} [options={}] The bridge options
+     */
+    constructor(player: Player, options: BridgeOptions = {}) {
+        /**
+         * The player
+         * @type {Player}
+         * @readonly
+         */
+        this.player = player;
+
+        /**
+         * The bridge options
+         * @type {BridgeOptions}
+         * @readonly
+         */
+        this.options = { source: "youtube", minScore: 0.4, cacheSize: 1000, ...options };
+
+        /**
+         * The chosen matches, by source, track url, author and title
+         * @name TrackBridge#cache
+         * @type {Collection<string, BridgeCandidate>}
+         * @readonly
+         */
+    }
+
+    /**
+     * Returns the playable match of a track, from the cache or by searching it
+     * @param {Track} track The track
+     * @returns {Promise<BridgeCandidate>} The match, `null` if none scored high enough
+     */
+    resolve(track: Track): Promise<BridgeCandidate> {
+        const key = this.#getKey(track);
+        const cached = this.cache.get(key);
+        if (cached) {
+            this.setMatch(track, cached);
+            return Promise.resolve(cached);
+        }
+
+        // the prefetch and the playback of a track may resolve it at the same time
+        if (!this._pending.has(key)) {
+            const pending = this.#match(track).then(
+                (match) => {
+                    this._pending.delete(key);
+                    if (match) this.setMatch(track, match);
+                    return match;
+                },
+                (error) => {
+                    this._pending.delete(key);
+                    throw error;
+                }
+            );
+            this._pending.set(key, pending);
+        }
+
+        return this._pending.get(key);
+    }
+
+    /**
+     * Searches the candidates of a track on the bridge source, sorted by score
+     * @param {Track} track The track
+     * @returns {Promise<BridgeCandidate[]>}
+     */
+    async search(track: Track): Promise<BridgeCandidate[]> {
+        const query = `${track.author} ${track.title}`;
+        const candidates: BridgeCandidate[] =
+            this.options.source === "soundcloud"
+                ? (await SoundCloudAPI.searchTracks(query, CANDIDATES))
+                      // 30 seconds previews of tracks only available to subscribers
+                      .filter((m) => m.policy !== "SNIP")
+                      .map((m) => ({
+                          title: m.title,
+                          author: m.user?.username ?? "",
+                          url: m.permalink_url,
+                          duration: m.full_duration ?? m.duration ?? 0,
+                          source: "soundcloud"
+                      }))
+                : (await YouTube.search(query, { type: "video", limit: CANDIDATES }))
+                      .filter((m) => !m.live)
+                      .map((m) => ({
+                          title: m.title,
+                          author: m.channel?.name ?? "",
+                          url: m.url,
+                          duration: m.duration ?? 0,
+                          source: "youtube"
+                      }));
+
+        return candidates.map((m) => ({ ...m, score: TrackBridge.score(track, m) })).sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Sets the match of a track, overriding the cached one
+     * @param {Track} track The track
+     * @param {BridgeCandidate} match The match
+     * @returns {void}
+     */
+    setMatch(track: Track, match: BridgeCandidate) {
+        const key = this.#getKey(track);
+        // most recently used last
+        this.cache.delete(key);
+        this.cache.set(key, match);
+        while (this.cache.size > this.options.cacheSize) this.cache.delete(this.cache.firstKey());
+    }
+
+    /**
+     * Scores how likely a candidate is the same recording as a track, from `0` to `1`, using
+     * the duration delta, the title and artist similarity and the signals of official uploads
+     * @param {Track} track The track
+     * @param {BridgeCandidate} candidate The candidate
+     * @returns {number}
+     */
+    static score(track: Track, candidate: BridgeCandidate) {
+        // versions are suffixed, such as "Song - Remastered 2011"
+        const [name] = track.title.split(" - ");
+        const titleTokens = Util.tokenize(name).filter((m) => !IGNORED_WORDS.includes(m));
+        const trackTokens = Util.tokenize(track.title);
+        const artistTokens = Util.tokenize(track.author);
+        const candidateTokens = Util.tokenize(candidate.title);
+        const authorTokens = Util.tokenize(candidate.author);
+
+        const delta = Math.abs(track.durationMS - candidate.duration);
+        const duration = !track.durationMS || !candidate.duration ? 0.5 : delta <= DURATION_TOLERANCE ? 1 : Math.max(0, 1 - (delta - DURATION_TOLERANCE) / DURATION_RANGE);
+        const title = recall(titleTokens, candidateTokens);
+        const artist = recall(artistTokens, [...authorTokens, ...candidateTokens]);
+
+        const artistChannel = recall(artistTokens, authorTokens) === 1;
+        // "Artist - Topic" channels host the audio of the releases
+        const official =
+            Util.last(authorTokens) === "topic" && artistChannel
+                ? 1
+                : authorTokens.some((m) => m.includes("vevo")) || (artistChannel && (candidateTokens.includes("official") || candidate.source === "soundcloud"))
+                ? 0.75
+                : artistChannel
+                ? 0.5
+                : 0;
+
+        const penalties = PENALIZED_WORDS.filter((m) => candidateTokens.includes(m) && !trackTokens.includes(m)).length;
+
+        const score = WEIGHTS.duration * duration + WEIGHTS.title * title + WEIGHTS.artist * artist + WEIGHTS.official * official - PENALTY * penalties;
+        // other songs of the same artist match everything but the title
+        return Math.max(0, Math.min(1, score * (0.5 + 0.5 * title)));
+    }
+
+    async #match(track: Track) {
+        const candidates = await this.search(track);
+        const match = typeof this.options.match === "function" ? await this.options.match(track, candidates) : undefined;
+        if (match !== undefined) return match || null;
+
+        return candidates[0]?.score >= this.options.minScore ? candidates[0] : null;
+    }
+
+    #getKey(track: Track) {
+        // the tracks of some playlists share the url of their playlist
+        return `${this.options.source}:${track.url}:${track.author}:${track.title}`;
+    }
+}
+
+export { TrackBridge };
@@ -0,0 +1,109 @@
+import { User } from "discord.js";
+import YouTube from "youtube-sr";
+import { Player } from "../Player";
+import { AutoplayProvider, YouTubeAutoplayOptions } from "../types/types";
+import { SearchRanker } from "../utils/SearchRanker";
+import { SoundCloudAPI } from "../utils/SoundCloudAPI";
+import { Util } from "../utils/Util";
+import { Queue } from "./Queue";
+import Track from "./Track";
+
+// amount of related tracks requested from SoundCloud
+const RELATED_LIMIT = 20;
+
+class YouTubeAutoplay implements AutoplayProvider {
+    public readonly player: Player;
+    public readonly options: YouTubeAutoplayOptions;
+
+    /**
+     * The default autoplay provider, recommending the related videos of YouTube tracks and the related tracks of SoundCloud ones.
+     * Spotify, Deezer and Apple Music tracks are recommended from their bridged match.
+     * @param {Player} player The player
+     * @param {YouTubeAutoplayOptions} [options={}] The provider options
+     */
+    constructor(player: Player, options: YouTubeAutoplayOptions = {}) {
+        /**
+         * The player
+         * @type {Player}
+         * @readonly
+         */
+        this.player = player;
+
+        /**
+         * The provider options
+         * @type {YouTubeAutoplayOptions}
+         * @readonly
+         */
+        this.options = { historySize: 25, ...options };
+    }
+
+    /**
+     * Returns the first related track which was not played recently and is not in the queue
+     * @param {Track} track The track to find a similar track of
+     * @param {Queue} queue The queue
+     * @param {Function} [filter] Receives each related track, returning `false` excludes it
+     * @returns {Promise<Track>} The track, `null` if there is none
+     */
+    async recommend(track: Track, queue: Queue, filter?: (track: Track) => boolean): Promise<Track> {
+        const candidates = await this.getRelated(track);
+        const history = [track, ...(this.options.historySize > 0 ? queue.previousTracks.slice(-this.options.historySize) : []), ...queue.tracks];
+
+        return candidates.find((m) => !history.some((t) => SearchRanker.isDuplicate(t, m)) && (typeof filter !== "function" || filter(m))) ?? null;
+    }
+
+    /**
+     * Returns the tracks related to a track
+     * @param {Track} track The track
+     * @returns {Promise<Track[]>}
+     */
+    async getRelated(track: Track): Promise<Track[]> {
+        const requestedBy = track.requestedBy;
+
+        switch (track.raw?.source ?? track.source) {
+            case "youtube":
+                return this.#getYouTubeRelated(track.url, requestedBy);
+            case "soundcloud":
+                return this.#getSoundCloudRelated(track.url, requestedBy);
+            case "spotify":
+            case "deezer":
+            case "apple_music": {
+                const match = await this.player.bridge.resolve(track).catch(Util.noop);
+                if (!match) return [];
+
+                return match.source === "soundcloud" ? this.#getSoundCloudRelated(match.url, requestedBy) : this.#getYouTubeRelated(match.url, requestedBy);
+            }
+            default:
+                return [];
+        }
+    }
+
+    async #getYouTubeRelated(url: string, requestedBy: User) {
+        const video = await YouTube.getVideo(url).catch(Util.noop);
+        if (!video) return [];
+
+        // live streams would never end
+        return video.videos
+            .filter((m) => !m.live)
+            .map(
+                (m) =>
+                    new Track(this.player, {
+                        title: m.title,
+                        url: `https://www.youtube.com/watch?v=${m.id}`,
+                        duration: m.durationFormatted ? Util.buildTimeCode(Util.parseMS(m.duration * 1000)) : "0:00",
+                        description: "",
+                        thumbnail: typeof m.thumbnail === "string" ? m.thumbnail : m.thumbnail.url,
+                        views: m.views,
+                        author: m.channel.name,
+                        requestedBy,
+                        source: "youtube"
+                    })
+            );
+    }
+
+    async #getSoundCloudRelated(url: string, requestedBy: User) {
+        const data = await SoundCloudAPI.getRelatedTracks(url, RELATED_LIMIT).catch((): unknown[] => []);
+        return data.map((m) => SoundCloudAPI.createTrack(this.player, m, requestedBy));
+    }
+}
+
+export { YouTubeAutoplay };
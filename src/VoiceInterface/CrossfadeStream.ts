@@ -0,0 +1,113 @@
+import { Readable, Transform, TransformCallback } from "stream";
+
+// signed 16-bit little-endian, 2 channels, 48kHz
+const FRAME_SIZE = 4;
+const SAMPLE_RATE = 48000;
+
+class CrossfadeStream extends Transform {
+    public incoming: Readable = null;
+    private _source: Readable = null;
+    private _remainder: Buffer = null;
+    private _fadeFrames = 0;
+    private _fadedFrames = 0;
+    private _incomingBytes = 0;
+    private _done = false;
+
+    /**
+     * PCM transformer which mixes the tail of this stream into the head of the next one
+     * @private
+     */
+    constructor() {
+        super();
+
+        this.on("pipe", (src) => (this._source = src));
+    }
+
+    /**
+     * Starts fading this stream out while fading the given stream in.
+     * Once the fade completes, this stream ends and the rest of `incoming` is left unread for the next audio resource.
+     * @param {Readable} incoming The PCM stream to fade in
+     * @param {number} duration The fade duration in ms
+     * @returns {void}
+     */
+    fadeInto(incoming: Readable, duration: number) {
+        this.incoming = incoming;
+        this._fadeFrames = Math.max(1, Math.round((duration / 1000) * SAMPLE_RATE));
+        this._fadedFrames = 0;
+        this._incomingBytes = 0;
+        incoming.read(0);
+    }
+
+    /**
+     * The amount of the incoming stream that has already been mixed in, in ms
+     * @type {number}
+     */
+    get incomingTime() {
+        return (this._incomingBytes / FRAME_SIZE / SAMPLE_RATE) * 1000;
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        if (this._done) return callback();
+
+        if (this._remainder) {
+            chunk = Buffer.concat([this._remainder, chunk]);
+            this._remainder = null;
+        }
+
+        const extra = chunk.length % FRAME_SIZE;
+        if (extra) {
+            this._remainder = chunk.subarray(chunk.length - extra);
+            chunk = chunk.subarray(0, chunk.length - extra);
+        }
+
+        if (!this.incoming || !chunk.length) return callback(null, chunk);
+
+        callback(null, this._mix(chunk));
+        if (this._fadedFrames >= this._fadeFrames) this._end();
+    }
+
+    _flush(callback: TransformCallback) {
+        callback(null, this._done ? null : this._remainder);
+    }
+
+    _destroy(error: Error, callback: (error: Error) => void) {
+        this._source?.destroy();
+        callback(error);
+    }
+
+    private _mix(chunk: Buffer) {
+        const available = this.incoming.readableLength - (this.incoming.readableLength % FRAME_SIZE);
+        const other: Buffer = available ? this.incoming.read(Math.min(available, chunk.length)) : null;
+
+        // the fade only advances while the next stream produces data
+        if (!other) return chunk;
+        this._incomingBytes += other.length;
+
+        const output = Buffer.allocUnsafe(chunk.length);
+        for (let offset = 0; offset < chunk.length; offset += 2) {
+            const mixed = offset < other.length;
+            if (mixed && offset % FRAME_SIZE === 0) this._fadedFrames++;
+
+            // equal power curve
+            const progress = Math.min(1, this._fadedFrames / this._fadeFrames) * (Math.PI / 2);
+            const sample = chunk.readInt16LE(offset) * Math.cos(progress) + (mixed ? other.readInt16LE(offset) * Math.sin(progress) : 0);
+
+            output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), offset);
+        }
+
+        return output;
+    }
+
+    private _end() {
+        this._done = true;
+        setImmediate(() => {
+            if (this._source) {
+                this._source.unpipe(this);
+                this._source.destroy();
+            }
+            this.end();
+        });
+    }
+}
+
+export { CrossfadeStream };
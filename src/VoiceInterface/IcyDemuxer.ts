@@ -0,0 +1,65 @@
+import { Readable, Transform, TransformCallback } from "stream";
+import { Radio } from "../utils/Radio";
+
+class IcyDemuxer extends Transform {
+    public readonly metaInt: number;
+    private _source: Readable = null;
+    private _audioLeft: number;
+    private _metaLeft = -1;
+    private _meta: Buffer[] = [];
+
+    /**
+     * Transformer removing the ICY metadata blocks interleaved in a radio stream, emitting them as `metadata` events
+     * @param {number} metaInt The amount of audio bytes between two metadata blocks, from the `icy-metaint` header
+     * @private
+     */
+    constructor(metaInt: number) {
+        super();
+
+        this.metaInt = metaInt;
+        this._audioLeft = metaInt;
+        this.on("pipe", (src) => (this._source = src));
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        let offset = 0;
+
+        while (offset < chunk.length) {
+            if (this._audioLeft > 0) {
+                const audio = chunk.subarray(offset, offset + this._audioLeft);
+                this.push(audio);
+                this._audioLeft -= audio.length;
+                offset += audio.length;
+            } else if (this._metaLeft < 0) {
+                // the length byte, in 16 bytes units
+                this._metaLeft = chunk[offset++] * 16;
+                if (!this._metaLeft) this._reset();
+            } else {
+                const meta = chunk.subarray(offset, offset + this._metaLeft);
+                this._meta.push(meta);
+                this._metaLeft -= meta.length;
+                offset += meta.length;
+
+                if (!this._metaLeft) {
+                    this.emit("metadata", Radio.parseMetadata(Buffer.concat(this._meta).toString("utf8")));
+                    this._reset();
+                }
+            }
+        }
+
+        callback();
+    }
+
+    _destroy(error: Error, callback: (error: Error) => void) {
+        this._source?.destroy();
+        callback(error);
+    }
+
+    private _reset() {
+        this._audioLeft = this.metaInt;
+        this._metaLeft = -1;
+        this._meta = [];
+    }
+}
+
+export { IcyDemuxer };
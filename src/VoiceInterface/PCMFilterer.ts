@@ -0,0 +1,122 @@
+import { Readable, Transform, TransformCallback } from "stream";
+import { BiquadFilter } from "../utils/BiquadFilter";
+import { Equalizer } from "../utils/Equalizer";
+import { LoudnessMeter } from "../utils/LoudnessMeter";
+import { PCMFilterOptions } from "../types/types";
+
+// signed 16-bit little-endian, 2 channels, 48kHz
+const FRAME_SIZE = 4;
+
+// Q of a band spanning 2/3 octave
+const EQUALIZER_Q = Math.sqrt(Math.pow(2, 2 / 3)) / (Math.pow(2, 2 / 3) - 1);
+
+class PCMFilterer extends Transform {
+    public options: PCMFilterOptions = {};
+    public meter: LoudnessMeter = null;
+    private _gains: number[] = null;
+    private _filters: BiquadFilter[] = [];
+    private _source: Readable = null;
+    private _remainder: Buffer = null;
+
+    /**
+     * PCM transformer applying the filters which do not need FFmpeg, so that they can be changed without restarting the stream
+     * @param {PCMFilterOptions} [options={}] The filter options
+     * @private
+     */
+    constructor(options: PCMFilterOptions = {}) {
+        super();
+
+        this.configure(options);
+        this.on("pipe", (src) => (this._source = src));
+    }
+
+    /**
+     * Updates the filters, keeping the state of the unchanged ones
+     * @param {PCMFilterOptions} options The filter options
+     * @returns {void}
+     */
+    configure(options: PCMFilterOptions) {
+        const frequencies = Equalizer.frequencies;
+        const wanted: [BiquadFilter["type"], number, number, number][] = [];
+
+        (options.equalizer ?? []).forEach((gain, band) => {
+            if (gain && frequencies[band]) wanted.push(["peaking", frequencies[band], gain, EQUALIZER_Q]);
+        });
+        if (options.bass) wanted.push(["lowshelf", 110, options.bass, 0.3]);
+        if (options.treble) wanted.push(["highshelf", 3000, options.treble, 0.5]);
+
+        this._filters = wanted.map(([type, frequency, gain, q]) => {
+            const existing = this._filters.find((m) => m.type === type && m.frequency === frequency && m.gain === gain && m.q === q);
+            return existing ?? new BiquadFilter(type, frequency, gain, q);
+        });
+        this.options = { ...options };
+    }
+
+    /**
+     * If this transformer currently changes the audio
+     * @type {boolean}
+     */
+    get active() {
+        return this._filters.length > 0 || !!this.options.balance || !!this.options.mono || (this.options.gain ?? 0) !== 0;
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        if (this._remainder) {
+            chunk = Buffer.concat([this._remainder, chunk]);
+            this._remainder = null;
+        }
+
+        const extra = chunk.length % FRAME_SIZE;
+        if (extra) {
+            this._remainder = chunk.subarray(chunk.length - extra);
+            chunk = chunk.subarray(0, chunk.length - extra);
+        }
+
+        // measured before any filter
+        if (chunk.length) this.meter?.process(chunk);
+
+        const balance = Math.max(-1, Math.min(1, this.options.balance ?? 0));
+        const gain = Math.pow(10, (this.options.gain ?? 0) / 20);
+        const gains = [gain * Math.min(1, 1 - balance), gain * Math.min(1, 1 + balance)];
+        // gain changes are ramped over the chunk to avoid clicks
+        const start = this._gains ?? gains;
+        this._gains = gains;
+
+        if ((!this.active && start.every((m) => m === 1)) || !chunk.length) return callback(null, chunk);
+
+        const frames = chunk.length / FRAME_SIZE;
+        const output = Buffer.allocUnsafe(chunk.length);
+
+        for (let frame = 0, offset = 0; offset < chunk.length; frame++, offset += FRAME_SIZE) {
+            const progress = frame / frames;
+            let left = chunk.readInt16LE(offset);
+            let right = chunk.readInt16LE(offset + 2);
+
+            if (this.options.mono) left = right = (left + right) / 2;
+
+            for (const filter of this._filters) {
+                left = filter.process(left, 0);
+                right = filter.process(right, 1);
+            }
+
+            left *= start[0] + (gains[0] - start[0]) * progress;
+            right *= start[1] + (gains[1] - start[1]) * progress;
+
+            output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(left))), offset);
+            output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(right))), offset + 2);
+        }
+
+        callback(null, output);
+    }
+
+    _flush(callback: TransformCallback) {
+        callback(null, this._remainder);
+    }
+
+    _destroy(error: Error, callback: (error: Error) => void) {
+        this._source?.destroy();
+        callback(error);
+    }
+}
+
+export { PCMFilterer };
@@ -116,14 +116,17 @@ class StreamDispatcher extends EventEmitter<VoiceEvents> {
      * Creates stream
      * @param {Readable|Duplex|string} src The stream source
      * @param {object} [ops={}] Options
+     * @param {StreamType} [ops.type=StreamType.Arbitrary] The stream type
+     * @param {any} [ops.data] The resource metadata
+     * @param {boolean} [ops.inlineVolume=true] If the volume should be adjustable, which requires the stream to be transcoded
      * @returns {AudioResource}
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    createStream(src: Readable | Duplex | string, ops?: { type?: StreamType; data?: any }) {
+    createStream(src: Readable | Duplex | string, ops?: { type?: StreamType; data?: any; inlineVolume?: boolean }) {
         this.audioResource = createAudioResource(src, {
             inputType: ops?.type ?? StreamType.Arbitrary,
             metadata: ops?.data,
-            inlineVolume: true // we definitely need volume controls, right?
+            inlineVolume: ops?.inlineVolume ?? true // we definitely need volume controls, right?
         });
 
         return this.audioResource;
@@ -209,7 +212,7 @@ class StreamDispatcher extends EventEmitter<VoiceEvents> {
      * @returns {boolean}
      */
     setVolume(value: number) {
-        if (!this.audioResource || isNaN(value) || value < 0 || value > Infinity) return false;
+        if (!this.audioResource?.volume || isNaN(value) || value < 0 || value > Infinity) return false;
 
         // ye boi logarithmic ✌
         this.audioResource.volume.setVolumeLogarithmic(value / 100);
@@ -1,14 +1,28 @@
+export { AppleMusic } from "./utils/AppleMusic";
 export { AudioFilters } from "./utils/AudioFilters";
+export { Deezer } from "./utils/Deezer";
+export { Equalizer } from "./utils/Equalizer";
 export { ExtractorModel } from "./Structures/ExtractorModel";
+export { JSONFileStorage } from "./Storage/JSONFileStorage";
+export { LocalFiles } from "./utils/LocalFiles";
+export { LocalLibrary, LocalLibraryEvents } from "./Structures/LocalLibrary";
+export { MemoryCache } from "./Storage/MemoryCache";
+export { MemoryStorage } from "./Storage/MemoryStorage";
 export { Playlist } from "./Structures/Playlist";
+export { PlaylistFiles } from "./utils/PlaylistFiles";
 export { Player } from "./Player";
+export { PlayerCache } from "./Structures/PlayerCache";
 export { PlayerError, ErrorStatusCode } from "./Structures/PlayerError";
 export { QueryResolver } from "./utils/QueryResolver";
+export { Radio } from "./utils/Radio";
 export { Queue } from "./Structures/Queue";
+export { SearchRanker } from "./utils/SearchRanker";
 export { Track } from "./Structures/Track";
+export { TrackBridge } from "./Structures/TrackBridge";
 export { VoiceUtils } from "./VoiceInterface/VoiceUtils";
 export { VoiceEvents, StreamDispatcher } from "./VoiceInterface/StreamDispatcher";
 export { Util } from "./utils/Util";
+export { YouTubeAutoplay } from "./Structures/YouTubeAutoplay";
 export * from "./types/types";
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
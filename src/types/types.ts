@@ -1,8 +1,10 @@
-import { Snowflake, User, UserResolvable } from "discord.js";
+import { Guild, Snowflake, User, UserResolvable } from "discord.js";
 import { Readable, Duplex } from "stream";
 import { Queue } from "../Structures/Queue";
 import Track from "../Structures/Track";
 import { Playlist } from "../Structures/Playlist";
+import { ExtractorModel } from "../Structures/ExtractorModel";
+import { Player } from "../Player";
 import { StreamDispatcher } from "../VoiceInterface/StreamDispatcher";
 import { downloadOptions } from "ytdl-core";
 
@@ -47,15 +49,141 @@ export interface QueueFilters {
     earrape?: boolean;
 }
 
+/**
+ * @typedef {object} EqualizerBand
+ * @property {number} band The band index, from `0` (25Hz) to `14` (16kHz)
+ * @property {number} gain The gain in dB
+ */
+export interface EqualizerBand {
+    band: number;
+    gain: number;
+}
+
+/**
+ * @typedef {object} LocalFileInfo
+ * @property {string} path The file path
+ * @property {string} title The title, or the file name if the file has no title tag
+ * @property {string} [artist] The artist
+ * @property {string} [album] The album
+ * @property {number} [trackNumber] The track number in the album
+ * @property {number} duration The duration in ms
+ * @property {object} [picture] The cover art
+ * @property {string} [picture.format] The image mime type
+ * @property {Buffer} [picture.data] The image data
+ */
+export interface LocalFileInfo {
+    path: string;
+    title: string;
+    artist?: string;
+    album?: string;
+    trackNumber?: number;
+    duration: number;
+    picture?: {
+        format: string;
+        data: Buffer;
+    };
+}
+
+/**
+ * @typedef {object} LocalLibraryOptions
+ * @property {string[]} [directories] The directories to index, defaults to the `localRoot` of the player. They have to be located in the `localRoot`, which is required by the library.
+ * @property {string} [indexPath] The JSON file the index is persisted to, the index is only kept in memory if not set
+ * @property {boolean} [watch=true] If the directories should be watched for changes
+ */
+export interface LocalLibraryOptions {
+    directories?: string[];
+    indexPath?: string;
+    watch?: boolean;
+}
+
+/**
+ * Indexed tags of a local file. Cover art is not indexed.
+ * @typedef {LocalFileInfo} LocalLibraryEntry
+ * @property {number} mtime The modification time of the file when it was indexed
+ * @property {number} size The size of the file when it was indexed
+ */
+export interface LocalLibraryEntry extends LocalFileInfo {
+    mtime: number;
+    size: number;
+}
+
+/**
+ * The playlist file format, one of:
+ * - m3u
+ * - m3u8
+ * - pls
+ * - xspf
+ * @typedef {string} PlaylistFileFormat
+ */
+export type PlaylistFileFormat = "m3u" | "m3u8" | "pls" | "xspf";
+
+/**
+ * @typedef {object} PlaylistFileEntry
+ * @property {string} [location] The path or url of the entry
+ * @property {string} [title] The title
+ * @property {string} [author] The artist
+ * @property {number} [duration] The duration in ms
+ * @property {string} [thumbnail] The cover art url
+ */
+export interface PlaylistFileEntry {
+    location?: string;
+    title?: string;
+    author?: string;
+    duration?: number;
+    thumbnail?: string;
+}
+
+/**
+ * @typedef {object} RadioStation
+ * @property {string} url The stream url
+ * @property {string} name The station name
+ * @property {string} description The station description
+ * @property {string} genre The station genre
+ * @property {string} homepage The station website
+ * @property {number} [bitrate] The bitrate in kbps
+ * @property {string} contentType The content type of the stream
+ */
+export interface RadioStation {
+    url: string;
+    name: string;
+    description: string;
+    genre: string;
+    homepage: string;
+    bitrate?: number;
+    contentType: string;
+}
+
+/**
+ * @typedef {object} PCMFilterOptions
+ * @property {number[]} [equalizer] The gain in dB of each equalizer band
+ * @property {number} [bass] The gain in dB of the low shelf
+ * @property {number} [treble] The gain in dB of the high shelf
+ * @property {number} [balance=0] The stereo balance, from `-1` (left) to `1` (right)
+ * @property {boolean} [mono=false] If both channels should be downmixed
+ * @property {number} [gain=0] The gain in dB applied to the whole signal
+ */
+export interface PCMFilterOptions {
+    equalizer?: number[];
+    bass?: number;
+    treble?: number;
+    balance?: number;
+    mono?: boolean;
+    gain?: number;
+}
+
 /**
  * The track source:
  * - soundcloud
  * - youtube
  * - spotify
+ * - deezer
+ * - apple_music
+ * - radio
+ * - local
  * - arbitrary
  * @typedef {string} TrackSource
  */
-export type TrackSource = "soundcloud" | "youtube" | "spotify" | "arbitrary";
+export type TrackSource = "soundcloud" | "youtube" | "spotify" | "deezer" | "apple_music" | "radio" | "local" | "arbitrary";
 
 /**
  * @typedef {object} RawTrackData
@@ -70,6 +198,7 @@ export type TrackSource = "soundcloud" | "youtube" | "spotify" | "arbitrary";
  * @property {Playlist} [playlist] The playlist
  * @property {TrackSource} [source="arbitrary"] The source
  * @property {any} [engine] The engine
+ * @property {string} [extractor] The name of the extractor streaming this track
  * @property {boolean} [live] If this track is live
  * @property {any} [raw] The raw data
  */
@@ -85,6 +214,7 @@ export interface RawTrackData {
     playlist?: Playlist;
     source?: TrackSource;
     engine?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    extractor?: string;
     live?: boolean;
     raw?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
 }
@@ -128,6 +258,11 @@ export interface PlayerProgressbarOptions {
  * @property {YTDLDownloadOptions} [ytdlOptions={}] The youtube download options
  * @property {number} [initialVolume=100] The initial player volume
  * @property {number} [bufferingTimeout=3000] Buffering timeout for the stream
+ * @property {number} [crossfade=0] Duration in ms of the crossfade between consecutive tracks, `0` disables it
+ * @property {boolean} [prefetch=false] If it should resolve and buffer the next track before the current one ends, for gapless playback. Always enabled with crossfade.
+ * @property {number} [loudnessTarget] The loudness in LUFS (e.g. `-14`) every track gets normalised to with a static gain, disabled by default
+ * @property {boolean} [opusPassthrough=false] If YouTube tracks should be streamed as Opus without transcoding while no filter is active, the volume is 100 and crossfade is disabled
+ * @property {number} [maxRetries=3] The amount of times a track whose stream fails or stops early is resumed where it stopped, the last attempt playing it from another source. Live streams are only resumed when their stream fails. `0` disables it.
  */
 export interface PlayerOptions {
     leaveOnEnd?: boolean;
@@ -138,6 +273,11 @@ export interface PlayerOptions {
     ytdlOptions?: downloadOptions;
     initialVolume?: number;
     bufferingTimeout?: number;
+    crossfade?: number;
+    prefetch?: boolean;
+    loudnessTarget?: number;
+    opusPassthrough?: boolean;
+    maxRetries?: number;
 }
 
 /**
@@ -162,7 +302,7 @@ export interface PlayerOptions {
  * @property {string} title The title
  * @property {number} duration The duration
  * @property {string} thumbnail The thumbnail
- * @property {string|Readable|Duplex} engine The stream engine
+ * @property {string|Readable|Duplex} [engine] The stream engine, v2 extractors stream the track at play time instead
  * @property {number} views The views count
  * @property {string} author The author
  * @property {string} description The description
@@ -189,7 +329,7 @@ export interface ExtractorModelData {
         title: string;
         duration: number;
         thumbnail: string;
-        engine: string | Readable | Duplex;
+        engine?: string | Readable | Duplex;
         views: number;
         author: string;
         description: string;
@@ -199,6 +339,59 @@ export interface ExtractorModelData {
     }[];
 }
 
+/**
+ * @typedef {object} ExtractorUseOptions
+ * @property {number} [priority] The priority of the extractor, overriding its own
+ * @property {QueryType[]} [queryTypes] The query types handled by the extractor, overriding its own
+ */
+export interface ExtractorUseOptions {
+    priority?: number;
+    queryTypes?: QueryType[];
+}
+
+/**
+ * @typedef {object} ExtractorStreamOptions
+ * @property {number} [seek=0] The position in ms the audio should start at
+ */
+export interface ExtractorStreamOptions {
+    seek?: number;
+}
+
+/**
+ * @typedef {object} ExtractorStream
+ * @property {string|Readable|Duplex} stream The audio stream or url
+ * @property {boolean} [seeked=false] If the audio already starts at the requested position, it is seeked by FFmpeg otherwise
+ */
+export interface ExtractorStream {
+    stream: string | Readable | Duplex;
+    seeked?: boolean;
+}
+
+/**
+ * An extractor whose audio is requested at play time, each time a track is played or seeked
+ * @typedef {object} Extractor
+ * @property {string} [version="0.0.0"] The extractor version
+ * @property {Function} validate Checks if a query is handled by this extractor
+ * @property {Function} getInfo Resolves the tracks of a validated query, as `{ playlist, info }`
+ * @property {Function} [search] Searches tracks by text, used by aggregated searches
+ * @property {Function} stream Returns the audio of a track, as a stream, an url or an `ExtractorStream`
+ * @property {number} [priority=0] The priority of the extractor, the ones with a higher priority are tried first
+ * @property {QueryType[]} [queryTypes] The query types handled by the extractor, every one by default
+ * @property {Function} [activate] Called with the player when the extractor is registered, to set it up. The extractor is unregistered if it throws.
+ * @property {Function} [deactivate] Called with the player when the extractor is unregistered or replaced
+ */
+export interface Extractor {
+    version?: string;
+    priority?: number;
+    queryTypes?: QueryType[];
+    activate?(player: Player): Awaitable<void>;
+    deactivate?(player: Player): Awaitable<void>;
+    validate(query: string): boolean;
+    getInfo(query: string): Awaitable<{ playlist?: ExtractorModelData["playlist"]; info: ExtractorModelData["data"] }>;
+    search?(query: string): Awaitable<{ playlist?: ExtractorModelData["playlist"]; info: ExtractorModelData["data"] }>;
+    stream(track: Track, options: ExtractorStreamOptions): Awaitable<string | Readable | Duplex | ExtractorStream>;
+}
+
 /**
  * The search query type
  * This can be one of:
@@ -218,6 +411,16 @@ export interface ExtractorModelData {
  * - YOUTUBE_SEARCH
  * - YOUTUBE_VIDEO
  * - SOUNDCLOUD_SEARCH
+ * - RADIO
+ * - LOCAL
+ * - LOCAL_SEARCH
+ * - PLAYLIST_FILE
+ * - DEEZER_SONG
+ * - DEEZER_ALBUM
+ * - DEEZER_PLAYLIST
+ * - APPLE_MUSIC_SONG
+ * - APPLE_MUSIC_ALBUM
+ * - APPLE_MUSIC_PLAYLIST
  * @typedef {string} QueryType
  */
 export enum QueryType {
@@ -236,7 +439,17 @@ export enum QueryType {
     REVERBNATION = "reverbnation",
     YOUTUBE_SEARCH = "youtube_search",
     YOUTUBE_VIDEO = "youtube_video",
-    SOUNDCLOUD_SEARCH = "soundcloud_search"
+    SOUNDCLOUD_SEARCH = "soundcloud_search",
+    RADIO = "radio",
+    LOCAL = "local",
+    LOCAL_SEARCH = "local_search",
+    PLAYLIST_FILE = "playlist_file",
+    DEEZER_SONG = "deezer_song",
+    DEEZER_ALBUM = "deezer_album",
+    DEEZER_PLAYLIST = "deezer_playlist",
+    APPLE_MUSIC_SONG = "apple_music_song",
+    APPLE_MUSIC_ALBUM = "apple_music_album",
+    APPLE_MUSIC_PLAYLIST = "apple_music_playlist"
 }
 
 /**
@@ -314,6 +527,46 @@ export enum QueryType {
  * @param {Track} track The track
  */
 
+/**
+ * Emitted when the stream of a track fails or stops early, before the track is resumed where it stopped
+ * @event Player#trackRetry
+ * @param {Queue} queue The queue
+ * @param {Track} track The track
+ * @param {Error} error The error
+ * @param {number} attempt The attempt, from `1` to `PlayerOptions.maxRetries`
+ */
+
+/**
+ * Emitted when the stream of a track fails or stops early and the track cannot be resumed, the queue going on with the next track
+ * @event Player#trackFailed
+ * @param {Queue} queue The queue
+ * @param {Track} track The track
+ * @param {Error} error The last error
+ */
+
+/**
+ * Emitted when the metadata of a track of the queue changes, such as the song played by a radio or the tags of a re-indexed local file
+ * @event Player#trackMetadataUpdate
+ * @param {Queue} queue The queue
+ * @param {Track} track The track
+ */
+
+/**
+ * Emitted when a page of a lazy playlist added by `Queue.addPlaylist()` has been fetched, and once before the first one
+ * @event Player#playlistProgress
+ * @param {Queue} queue The queue
+ * @param {Playlist} playlist The playlist
+ * @param {number} loaded The amount of fetched tracks
+ * @param {number} total The amount of tracks of the playlist, both are equal once it is complete
+ */
+
+/**
+ * Emitted when an extractor throws while searching or being set up, the search going on with the other engines
+ * @event Player#extractorError
+ * @param {ExtractorModel} extractor The extractor
+ * @param {Error} error The error
+ */
+
 /* eslint-disable @typescript-eslint/no-explicit-any */
 export interface PlayerEvents {
     botDisconnect: (queue: Queue) => any;
@@ -327,6 +580,11 @@ export interface PlayerEvents {
     tracksAdd: (queue: Queue, track: Track[]) => any;
     trackStart: (queue: Queue, track: Track) => any;
     trackEnd: (queue: Queue, track: Track) => any;
+    trackRetry: (queue: Queue, track: Track, error: Error, attempt: number) => any;
+    trackFailed: (queue: Queue, track: Track, error: Error) => any;
+    trackMetadataUpdate: (queue: Queue, track: Track) => any;
+    playlistProgress: (queue: Queue, playlist: Playlist, loaded: number, total: number) => any;
+    extractorError: (extractor: ExtractorModel, error: Error) => any;
 }
 
 /* eslint-enable @typescript-eslint/no-explicit-any */
@@ -348,15 +606,54 @@ export interface PlayOptions {
 /**
  * @typedef {object} SearchOptions
  * @property {UserResolvable} requestedBy The user who requested this search
- * @property {QueryType} [searchEngine=QueryType.AUTO] The query search engine
+ * @property {QueryType|string|string[]} [searchEngine=QueryType.AUTO] The query search engine, `all` or a list of engines (`youtube`, `soundcloud` or the name of an extractor) to aggregate the results of several engines
  * @property {boolean} [blockExtractor=false] If it should block custom extractors
+ * @property {boolean} [lazy=false] If YouTube, Spotify and SoundCloud playlists should only resolve their first page, the others being fetched by `Playlist.fetchNext()`, `Playlist.load()` or `Queue.addPlaylist()`
+ * @property {number} [engineTimeout=5000] Time in ms after which an engine of an aggregated search is given up
+ * @property {SearchScorer} [scorer=SearchRanker.score] Scores the results of an aggregated search, which are sorted by descending score
+ * @property {number} [limit] The maximum amount of results, YouTube and SoundCloud searches fetch more results until it is reached
+ * @property {number} [offset=0] The amount of matching results to skip
+ * @property {string} [continuation] The `continuation` of the previous search result, to get the following results of a YouTube or SoundCloud search
+ * @property {number} [minDuration] The minimum duration in ms of the results, live streams excepted
+ * @property {number} [maxDuration] The maximum duration in ms of the results, live streams excepted
+ * @property {boolean} [excludeLive=false] If live streams should be excluded from the results
+ * @property {Function} [filter] Receives each result, returning `false` excludes it
  */
 export interface SearchOptions {
     requestedBy: UserResolvable;
-    searchEngine?: QueryType;
+    searchEngine?: QueryType | "all" | string[];
     blockExtractor?: boolean;
+    lazy?: boolean;
+    engineTimeout?: number;
+    scorer?: SearchScorer;
+    limit?: number;
+    offset?: number;
+    continuation?: string;
+    minDuration?: number;
+    maxDuration?: number;
+    excludeLive?: boolean;
+    filter?: (track: Track) => boolean;
 }
 
+/**
+ * @typedef {object} SearchResult
+ * @property {Playlist} [playlist] The playlist (if any)
+ * @property {Track[]} tracks The tracks
+ * @property {string} [continuation] Passed to the next search to get the following results of a YouTube or SoundCloud search, `null` once every result has been read
+ */
+export interface SearchResult {
+    playlist: Playlist;
+    tracks: Track[];
+    continuation?: string;
+}
+
+/**
+ * Scores a result of an aggregated search, receives the result, the query and the position of the result in the results of its engine (from `0`)
+ * @typedef {Function} SearchScorer
+ * @returns {number}
+ */
+export type SearchScorer = (track: Track, query: string, rank: number) => number;
+
 /**
  * The queue repeat mode. This can be one of:
  * - OFF
@@ -385,6 +682,7 @@ export enum QueueRepeatMode {
  * @property {string} [author.url] The author url
  * @property {string} id The playlist id
  * @property {string} url The playlist url
+ * @property {number} [totalTracks] The amount of tracks, including the ones which have not been fetched yet
  * @property {any} [rawPlaylist] The raw playlist data
  */
 export interface PlaylistInitData {
@@ -400,6 +698,7 @@ export interface PlaylistInitData {
     };
     id: string;
     url: string;
+    totalTracks?: number;
     rawPlaylist?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
 }
 
@@ -415,6 +714,11 @@ export interface PlaylistInitData {
  * @property {number} views The views count
  * @property {Snowflake} requestedBy The id of the user who requested this track
  * @property {PlaylistJSON} [playlist] The playlist info (if any)
+ * @property {TrackSource} [source] The track source
+ * @property {boolean} [live] If the track is a live stream
+ * @property {string} [extractor] The name of the extractor streaming the track
+ * @property {boolean} [generated] If the track was added by the radio of its queue
+ * @property {object} [raw] The raw data (e.g. of radio stations, local files and extractors), except for YouTube and SoundCloud tracks
  */
 export interface TrackJSON {
     id: Snowflake;
@@ -428,6 +732,11 @@ export interface TrackJSON {
     views: number;
     requestedBy: Snowflake;
     playlist?: PlaylistJSON;
+    source?: TrackSource;
+    live?: boolean;
+    extractor?: string;
+    generated?: boolean;
+    raw?: Record<string, unknown>;
 }
 
 /**
@@ -459,14 +768,371 @@ export interface PlaylistJSON {
     tracks: TrackJSON[];
 }
 
+/**
+ * @typedef {object} QueueSnapshot
+ * @property {Snowflake} guild The guild id
+ * @property {Snowflake} [voiceChannel] The voice channel id the queue was connected to
+ * @property {PlayerOptions} options The queue options
+ * @property {TrackJSON} [current] The track that was playing
+ * @property {number} streamTime The playback position of the current track in ms
+ * @property {TrackJSON[]} tracks The upcoming tracks
+ * @property {TrackJSON[]} previousTracks The previously played tracks
+ * @property {QueueRepeatMode} repeatMode The repeat mode
+ * @property {FiltersName[]} filters The enabled filters
+ * @property {number[]} [equalizer] The gain in dB of each equalizer band
+ * @property {number} [speed=1] The playback speed
+ * @property {number} [pitch=0] The pitch shift in semitones
+ * @property {number} [balance=0] The stereo balance
+ * @property {number} volume The volume
+ * @property {RadioSnapshot} [radio] The radio state, if the radio was on
+ * @property {any} [metadata] The metadata returned by `PlayerInitOptions.serializeMetadata`
+ */
+export interface QueueSnapshot {
+    guild: Snowflake;
+    voiceChannel?: Snowflake;
+    options: PlayerOptions;
+    current?: TrackJSON;
+    streamTime: number;
+    tracks: TrackJSON[];
+    previousTracks: TrackJSON[];
+    repeatMode: QueueRepeatMode;
+    filters: FiltersName[];
+    equalizer?: number[];
+    speed?: number;
+    pitch?: number;
+    balance?: number;
+    volume: number;
+    radio?: RadioSnapshot;
+    metadata?: unknown;
+}
+
+/**
+ * A track of the Deezer API
+ * @typedef {object} DeezerTrackData
+ * @property {number} id The track id
+ * @property {string} title The title
+ * @property {string} [link] The url
+ * @property {number} [duration] The duration in seconds
+ * @property {object} [artist] The artist
+ * @property {object} [album] The album, missing from the tracks of albums
+ */
+export interface DeezerTrackData {
+    id: number;
+    title: string;
+    link?: string;
+    duration?: number;
+    artist?: {
+        name: string;
+        link?: string;
+    };
+    album?: {
+        title?: string;
+        cover_big?: string;
+        cover_xl?: string;
+    };
+}
+
+/**
+ * A page of a list of the Deezer API
+ * @typedef {object} DeezerPage
+ * @property {DeezerTrackData[]} data The items of this page
+ * @property {number} [total] The amount of items of the whole list
+ * @property {string} [next] The url of the next page, missing from the last page
+ */
+export interface DeezerPage {
+    data: DeezerTrackData[];
+    total?: number;
+    next?: string;
+}
+
+/**
+ * An album or a playlist of the Deezer API
+ * @typedef {object} DeezerCollectionData
+ * @property {number} id The album or playlist id
+ * @property {string} type `album` or `playlist`
+ * @property {string} title The title
+ * @property {string} link The url
+ * @property {string} [description] The description of playlists
+ * @property {string} [cover_xl] The cover of albums
+ * @property {string} [picture_xl] The picture of playlists
+ * @property {number} [nb_tracks] The amount of tracks
+ * @property {object} [artist] The artist of albums
+ * @property {object} [creator] The creator of playlists
+ * @property {DeezerPage} [tracks] The first page of tracks
+ */
+export interface DeezerCollectionData {
+    id: number;
+    type: "album" | "playlist";
+    title: string;
+    link: string;
+    description?: string;
+    cover_xl?: string;
+    picture_xl?: string;
+    nb_tracks?: number;
+    artist?: {
+        name: string;
+        link?: string;
+    };
+    creator?: {
+        id: number;
+        name: string;
+    };
+    tracks?: DeezerPage;
+}
+
+/**
+ * A result of the iTunes lookup API
+ * @typedef {object} AppleMusicLookupResult
+ * @property {string} wrapperType `track` for songs, `collection` for albums
+ * @property {number} [collectionId] The album id
+ * @property {string} [collectionName] The album title
+ * @property {string} [collectionViewUrl] The album url
+ * @property {number} [trackId] The song id
+ * @property {string} [trackName] The song title
+ * @property {string} [trackViewUrl] The song url
+ * @property {number} [trackTimeMillis] The song duration in ms
+ * @property {number} [discNumber] The disc of the song
+ * @property {number} [trackNumber] The position of the song on its disc
+ * @property {string} [artistName] The artist name
+ * @property {string} [artistViewUrl] The artist url
+ * @property {string} [artworkUrl100] The artwork, 100x100
+ * @property {string} [copyright] The copyright notice of albums
+ */
+export interface AppleMusicLookupResult {
+    wrapperType: string;
+    collectionId?: number;
+    collectionName?: string;
+    collectionViewUrl?: string;
+    trackId?: number;
+    trackName?: string;
+    trackViewUrl?: string;
+    trackTimeMillis?: number;
+    discNumber?: number;
+    trackNumber?: number;
+    artistName?: string;
+    artistViewUrl?: string;
+    artworkUrl100?: string;
+    copyright?: string;
+}
+
+/**
+ * A `MusicRecording` of the structured data of an Apple Music playlist page
+ * @typedef {object} AppleMusicRecordingData
+ * @property {string} [name] The title
+ * @property {string} [url] The url
+ * @property {string} [duration] The ISO 8601 duration
+ * @property {string|string[]} [image] The artwork
+ * @property {object|object[]} [byArtist] The artists
+ * @property {object} [inAlbum] The album
+ * @property {AppleMusicRecordingData} [audio] The recording, which newer pages wrap their tracks around
+ */
+export interface AppleMusicRecordingData {
+    name?: string;
+    url?: string;
+    duration?: string;
+    image?: string | string[];
+    byArtist?: { name: string } | { name: string }[];
+    inAlbum?: {
+        name?: string;
+    };
+    audio?: AppleMusicRecordingData;
+}
+
+/**
+ * The `MusicPlaylist` structured data (JSON-LD) of an Apple Music playlist page
+ * @typedef {object} AppleMusicPlaylistData
+ * @property {string} [name] The title
+ * @property {string} [description] The description
+ * @property {string|string[]} [image] The artwork
+ * @property {object|object[]} [author] The curator
+ * @property {AppleMusicRecordingData[]} [track] The tracks
+ * @property {AppleMusicRecordingData[]} [tracks] Alias of `track` used by some pages
+ */
+export interface AppleMusicPlaylistData {
+    "@type": "MusicPlaylist";
+    name?: string;
+    description?: string;
+    image?: string | string[];
+    author?: { name?: string; url?: string } | { name?: string; url?: string }[];
+    track?: AppleMusicRecordingData[];
+    tracks?: AppleMusicRecordingData[];
+}
+
+/**
+ * The source the tracks of Spotify, Deezer and Apple Music are bridged to, one of:
+ * - youtube
+ * - soundcloud
+ * @typedef {string} BridgeSource
+ */
+export type BridgeSource = "youtube" | "soundcloud";
+
+/**
+ * @typedef {object} BridgeCandidate
+ * @property {string} title The title
+ * @property {string} author The artist or channel name
+ * @property {string} url The url
+ * @property {number} duration The duration in ms, `0` if unknown
+ * @property {BridgeSource} source The source
+ * @property {number} [score] The match score, from `0` to `1`
+ */
+export interface BridgeCandidate {
+    title: string;
+    author: string;
+    url: string;
+    duration: number;
+    source: BridgeSource;
+    score?: number;
+}
+
+/**
+ * @typedef {object} BridgeOptions
+ * @property {BridgeSource} [source="youtube"] The source the bridged tracks are played from
+ * @property {number} [minScore=0.4] The minimum score of a match, from `0` to `1`
+ * @property {number} [cacheSize=1000] The maximum amount of cached matches
+ * @property {Function} [match] Overrides the matching, receives the track and the candidates sorted by score. Returning `undefined` falls back to the best candidate.
+ */
+export interface BridgeOptions {
+    source?: BridgeSource;
+    minScore?: number;
+    cacheSize?: number;
+    match?: (track: Track, candidates: BridgeCandidate[]) => BridgeCandidate | void | Promise<BridgeCandidate | void>;
+}
+
 /**
  * @typedef {object} PlayerInitOptions
  * @property {boolean} [autoRegisterExtractor=true] If it should automatically register `@discord-player/extractor`
  * @property {YTDLDownloadOptions} [ytdlOptions={}] The options passed to `ytdl-core`
  * @property {number} [connectionTimeout=20000] The voice connection timeout
+ * @property {Function} [serializeMetadata] Converts queue metadata into JSON compatible data for snapshots
+ * @property {Function} [deserializeMetadata] Rebuilds queue metadata from the snapshot data
+ * @property {PlayerStorage} [storage] The storage adapter where queue snapshots are saved on every queue mutation
+ * @property {number} [storageWriteDelay=1000] Time in ms to wait for more queue mutations before writing to the storage
+ * @property {string} [localRoot] The directory local files can be played from, local playback is disabled if not set
+ * @property {LocalLibraryOptions} [library] The options of the local library, which is disabled if not set
+ * @property {BridgeOptions} [bridge] The options of the bridge matching Spotify, Deezer and Apple Music tracks with playable ones
+ * @property {CacheOptions} [cache] The options of the cache of search results and YouTube video info
+ * @property {AutoplayProvider} [autoplay] The provider of the tracks played in autoplay mode, a {@link YouTubeAutoplay} by default
  */
 export interface PlayerInitOptions {
     autoRegisterExtractor?: boolean;
     ytdlOptions?: downloadOptions;
     connectionTimeout?: number;
+    serializeMetadata?: (metadata: unknown, queue: Queue) => unknown;
+    deserializeMetadata?: (data: unknown, guild: Guild) => unknown | Promise<unknown>;
+    storage?: PlayerStorage;
+    storageWriteDelay?: number;
+    localRoot?: string;
+    library?: LocalLibraryOptions;
+    bridge?: BridgeOptions;
+    cache?: CacheOptions;
+    autoplay?: AutoplayProvider;
 }
+
+/**
+ * Storage adapter used to persist queue snapshots, keyed by guild id
+ * @typedef {object} PlayerStorage
+ * @property {Function} get Returns the snapshot of a guild (or `null`)
+ * @property {Function} set Stores the snapshot of a guild
+ * @property {Function} delete Deletes the snapshot of a guild
+ * @property {Function} list Lists the guild ids having a snapshot
+ */
+export interface PlayerStorage {
+    get(guild: Snowflake): Awaitable<QueueSnapshot>;
+    set(guild: Snowflake, snapshot: QueueSnapshot): Awaitable<void>;
+    delete(guild: Snowflake): Awaitable<void>;
+    list(): Awaitable<Snowflake[]>;
+}
+
+/**
+ * Cache backend storing search results and YouTube video info, which must be kept as is or as JSON
+ * @typedef {object} CacheBackend
+ * @property {Function} get Returns the value of a key, `undefined` if it is missing or expired
+ * @property {Function} set Stores the value of a key for the given time in ms
+ * @property {Function} delete Deletes a key
+ * @property {Function} clear Deletes every key
+ * @property {Function} size Returns the amount of stored keys
+ */
+export interface CacheBackend {
+    get(key: string): Awaitable<unknown>;
+    set(key: string, value: unknown, ttl: number): Awaitable<void>;
+    delete(key: string): Awaitable<void>;
+    clear(): Awaitable<void>;
+    size(): Awaitable<number>;
+}
+
+/**
+ * @typedef {object} CacheOptions
+ * @property {number} [ttl=300000] Time in ms the entries are kept, `0` disables the cache
+ * @property {number} [maxSize=500] The maximum amount of entries of the default backend, the least recently used ones being evicted first
+ * @property {CacheBackend} [backend] The backend, a {@link MemoryCache} by default
+ */
+export interface CacheOptions {
+    ttl?: number;
+    maxSize?: number;
+    backend?: CacheBackend;
+}
+
+/**
+ * @typedef {object} CacheStats
+ * @property {number} hits The amount of lookups which found an entry
+ * @property {number} misses The amount of lookups which found nothing
+ * @property {number} size The amount of entries
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+}
+
+/**
+ * @typedef {object} AutoplayProvider
+ * @property {Function} recommend Returns a track similar to the given track, receiving the track, the queue and optionally a filter the track should pass.
+ * Returning `null` ends the queue in autoplay mode.
+ */
+export interface AutoplayProvider {
+    recommend(track: Track, queue: Queue, filter?: (track: Track) => boolean): Awaitable<Track>;
+}
+
+/**
+ * @typedef {object} YouTubeAutoplayOptions
+ * @property {number} [historySize=25] The amount of previous tracks the recommendations must differ from
+ */
+export interface YouTubeAutoplayOptions {
+    historySize?: number;
+}
+
+/**
+ * The seed of a radio: a track, a playlist, or an artist name or genre which is searched
+ * @typedef {Track|Playlist|string} RadioSeed
+ */
+export type RadioSeed = Track | Playlist | string;
+
+/**
+ * @typedef {object} RadioOptions
+ * @property {number} [size=5] The amount of upcoming tracks the radio keeps in the queue
+ * @property {number} [artistLimit=2] The maximum amount of tracks of an artist among the upcoming tracks and the last played ones, `0` disables the limit
+ * @property {number} [minDuration] The minimum duration in ms of the generated tracks
+ * @property {number} [maxDuration] The maximum duration in ms of the generated tracks
+ * @property {AutoplayProvider} [provider] The recommendation source, `Player.autoplay` by default
+ * @property {UserResolvable} [requestedBy] The user who requested the radio, searching an artist or genre seed
+ */
+export interface RadioOptions {
+    size?: number;
+    artistLimit?: number;
+    minDuration?: number;
+    maxDuration?: number;
+    provider?: AutoplayProvider;
+    requestedBy?: UserResolvable;
+}
+
+/**
+ * @typedef {object} RadioSnapshot
+ * @property {TrackJSON[]} seeds The tracks the recommendations of the radio are based on
+ * @property {RadioOptions} options The radio options, without the provider and the requesting user
+ */
+export interface RadioSnapshot {
+    seeds: TrackJSON[];
+    options: Omit<RadioOptions, "provider" | "requestedBy">;
+}
+
+export type Awaitable<T> = T | Promise<T>;
@@ -0,0 +1,213 @@
+import { User } from "discord.js";
+import { Player } from "../Player";
+import { Playlist } from "../Structures/Playlist";
+import Track from "../Structures/Track";
+import { AppleMusicLookupResult, AppleMusicPlaylistData, AppleMusicRecordingData } from "../types/types";
+import { Util } from "./Util";
+
+const LOOKUP_URL = "https://itunes.apple.com/lookup";
+const urlRegex = /^https?:\/\/(?:geo\.)?music\.apple\.com\/([a-z]{2})\/(album|song|playlist)\/(?:[^/?#]+\/)?([^/?#]+)(?:\?(?:[^#]*&)?i=(\d+))?/i;
+const ldJsonRegex = /<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi;
+const DEFAULT_THUMBNAIL = "https://music.apple.com/assets/meta/apple-music.png";
+
+// artworks are served at any size
+const artwork = (url: string, fallback = DEFAULT_THUMBNAIL) => url?.replace(/\/\d+x\d+bb\./, "/600x600bb.") ?? fallback;
+
+class AppleMusic {
+    /**
+     * Apple Music utils, songs and albums are looked up on the iTunes API while playlists are read from their page
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Parses an Apple Music url. Album urls pointing to one of their songs (`?i=`) are songs.
+     * @param {string} url The url
+     * @returns {{ type: string, id: string, country: string }} The type (`song`, `album` or `playlist`), id and storefront, `null` if the url is not an Apple Music url
+     */
+    static parseURL(url: string): { type: "song" | "album" | "playlist"; id: string; country: string } {
+        const [, country, type, id, songId] = urlRegex.exec(url) ?? [];
+        if (!type) return null;
+
+        return { type: songId ? "song" : (type.toLowerCase() as "song" | "album" | "playlist"), id: songId ?? id, country: country.toLowerCase() };
+    }
+
+    /**
+     * Parses an ISO 8601 duration, such as `PT3M22S`
+     * @param {string} duration The duration
+     * @returns {number} The duration in ms
+     */
+    static parseDuration(duration: string) {
+        const [, hours, minutes, seconds] = /^P(?:\d+D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/i.exec(duration ?? "") ?? [];
+        return Math.round(((parseInt(hours) || 0) * 3600 + (parseInt(minutes) || 0) * 60 + (parseFloat(seconds) || 0)) * 1000);
+    }
+
+    /**
+     * Looks up a song or an album (with its songs) on the iTunes API
+     * @param {string} id The song or album id
+     * @param {string} [country="us"] The storefront
+     * @returns {Promise<AppleMusicLookupResult[]>} The results, the album first
+     */
+    static async lookup(id: string, country = "us"): Promise<AppleMusicLookupResult[]> {
+        const res = await Util.request(`${LOOKUP_URL}?id=${encodeURIComponent(id)}&country=${country}&entity=song&limit=200`);
+        return JSON.parse(await Util.readBody(res, 1 << 24)).results ?? [];
+    }
+
+    /**
+     * Reads the playlist data of the structured data (JSON-LD) of a playlist page
+     * @param {string} html The page
+     * @returns {AppleMusicPlaylistData} The `MusicPlaylist` object, `null` if the page has none
+     */
+    static parsePlaylistPage(html: string): AppleMusicPlaylistData {
+        let match: RegExpExecArray;
+        ldJsonRegex.lastIndex = 0;
+
+        while ((match = ldJsonRegex.exec(html))) {
+            try {
+                const data = JSON.parse(match[1]);
+                if (data?.["@type"] === "MusicPlaylist") return data;
+            } catch {
+                continue;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolves the song, album or playlist of an Apple Music url
+     * @param {Player} player The player
+     * @param {string} url The url
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {Promise<{ playlist: Playlist, tracks: Track[] }>}
+     */
+    static async resolve(player: Player, url: string, requestedBy?: User): Promise<{ playlist: Playlist; tracks: Track[] }> {
+        const parsed = AppleMusic.parseURL(url);
+        if (!parsed) return { playlist: null, tracks: [] };
+
+        if (parsed.type === "playlist") {
+            const data = AppleMusic.parsePlaylistPage(await Util.readBody(await Util.request(url), 1 << 24));
+            if (!data) return { playlist: null, tracks: [] };
+
+            const playlist = AppleMusic.createPlaylist(player, data, url, requestedBy);
+            return { playlist, tracks: playlist.tracks };
+        }
+
+        const results = await AppleMusic.lookup(parsed.id, parsed.country);
+        if (parsed.type === "song") {
+            const song = results.find((m) => m.wrapperType === "track");
+            return { playlist: null, tracks: song ? [AppleMusic.createTrack(player, song, requestedBy)] : [] };
+        }
+
+        if (!results.some((m) => m.wrapperType === "collection")) return { playlist: null, tracks: [] };
+        const playlist = AppleMusic.createAlbum(player, results, requestedBy);
+        return { playlist, tracks: playlist.tracks };
+    }
+
+    /**
+     * Creates the track of an iTunes API song
+     * @param {Player} player The player
+     * @param {AppleMusicLookupResult} data The song
+     * @param {User} [requestedBy] The user who requested this track
+     * @param {Playlist} [playlist] The playlist of this track
+     * @returns {Track}
+     */
+    static createTrack(player: Player, data: AppleMusicLookupResult, requestedBy?: User, playlist?: Playlist) {
+        return new Track(player, {
+            title: data.trackName ?? "",
+            description: data.collectionName ?? "",
+            author: data.artistName ?? "Unknown Artist",
+            url: data.trackViewUrl,
+            thumbnail: artwork(data.artworkUrl100, playlist?.thumbnail),
+            duration: Util.buildTimeCode(Util.parseMS(data.trackTimeMillis ?? 0)),
+            views: 0,
+            requestedBy,
+            playlist,
+            source: "apple_music",
+            raw: data
+        });
+    }
+
+    /**
+     * Creates the playlist of an album looked up on the iTunes API
+     * @param {Player} player The player
+     * @param {AppleMusicLookupResult[]} results The lookup results, the album first
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {Playlist}
+     */
+    static createAlbum(player: Player, results: AppleMusicLookupResult[], requestedBy?: User) {
+        const album = results.find((m) => m.wrapperType === "collection");
+        const playlist = new Playlist(player, {
+            title: album.collectionName ?? "",
+            description: album.copyright ?? "",
+            thumbnail: artwork(album.artworkUrl100),
+            type: "album",
+            source: "apple_music",
+            author: {
+                name: album.artistName ?? "Unknown Artist",
+                url: album.artistViewUrl ?? null
+            },
+            tracks: [],
+            id: `${album.collectionId}`,
+            url: album.collectionViewUrl,
+            rawPlaylist: album
+        });
+
+        playlist.tracks = results
+            .filter((m) => m.wrapperType === "track")
+            .sort((a, b) => (a.discNumber ?? 0) - (b.discNumber ?? 0) || (a.trackNumber ?? 0) - (b.trackNumber ?? 0))
+            .map((m) => AppleMusic.createTrack(player, m, requestedBy, playlist));
+
+        return playlist;
+    }
+
+    /**
+     * Creates the playlist of the `MusicPlaylist` object of a playlist page
+     * @param {Player} player The player
+     * @param {AppleMusicPlaylistData} data The `MusicPlaylist` object
+     * @param {string} url The playlist url
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {Playlist}
+     */
+    static createPlaylist(player: Player, data: AppleMusicPlaylistData, url: string, requestedBy?: User) {
+        const author = Array.isArray(data.author) ? data.author[0] : data.author;
+        const playlist = new Playlist(player, {
+            title: data.name ?? "",
+            description: data.description ?? "",
+            thumbnail: (Array.isArray(data.image) ? data.image[0] : data.image) ?? DEFAULT_THUMBNAIL,
+            type: "playlist",
+            source: "apple_music",
+            author: {
+                name: author?.name ?? "Apple Music",
+                url: author?.url ?? null
+            },
+            tracks: [],
+            id: AppleMusic.parseURL(url)?.id ?? url,
+            url,
+            rawPlaylist: data
+        });
+
+        // older pages list the recordings directly, newer ones wrap them in their audio
+        const recordings: AppleMusicRecordingData[] = (data.track ?? data.tracks ?? []).map((m) => m.audio ?? m);
+        playlist.tracks = recordings.map((m) => {
+            const artists = [].concat(m.byArtist ?? []) as { name: string }[];
+
+            return new Track(player, {
+                title: m.name ?? "",
+                description: m.inAlbum?.name ?? "",
+                author: artists.map((a) => a.name).join(", "),
+                url: m.url ?? url,
+                thumbnail: (Array.isArray(m.image) ? m.image[0] : m.image) ?? playlist.thumbnail,
+                duration: Util.buildTimeCode(Util.parseMS(AppleMusic.parseDuration(m.duration))),
+                views: 0,
+                requestedBy,
+                playlist,
+                source: "apple_music",
+                raw: m
+            });
+        });
+
+        return playlist;
+    }
+}
+
+export { AppleMusic };
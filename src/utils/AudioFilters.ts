@@ -1,4 +1,4 @@
-import { FiltersName } from "../types/types";
+import { FiltersName, PCMFilterOptions } from "../types/types";
 
 const bass = (g: number) => `bass=g=${g}:f=110:w=0.3`;
 
@@ -109,6 +109,51 @@ const FilterList = {
 
     defineBulk(filterArray: { name: string; value: string }[]): void {
         filterArray.forEach((arr) => this.define(arr.name, arr.value));
+    },
+
+    speed(rate: number): string {
+        const tempo: number[] = [];
+
+        // atempo only accepts values between 0.5 and 2
+        while (rate > 2) {
+            tempo.push(2);
+            rate /= 2;
+        }
+        while (rate < 0.5) {
+            tempo.push(0.5);
+            rate /= 0.5;
+        }
+        if (rate !== 1) tempo.push(rate);
+
+        return tempo.map((m) => `atempo=${m}`).join(",");
+    },
+
+    pitch(semitones: number): string {
+        if (!semitones) return "";
+        const ratio = Math.pow(2, semitones / 12);
+
+        return [`asetrate=48000*${ratio}`, "aresample=48000", this.speed(1 / ratio)].filter((m) => !!m).join(",");
+    },
+
+    rateOf(filter: string): number {
+        const sampleRate = /asetrate=(\d+(?:\.\d+)?)(?:\*(\d+(?:\.\d+)?))?/g;
+        const tempo = /atempo=(\d+(?:\.\d+)?)/g;
+        let rate = 1;
+        let match: RegExpExecArray;
+
+        while ((match = sampleRate.exec(filter))) rate *= (parseFloat(match[1]) * (match[2] ? parseFloat(match[2]) : 1)) / 48000;
+        while ((match = tempo.exec(filter))) rate *= parseFloat(match[1]);
+
+        return rate > 0 && Number.isFinite(rate) ? rate : 1;
+    },
+
+    pcmOf(filter: string): PCMFilterOptions {
+        const [, bass] = /^bass=g=(-?\d+(?:\.\d+)?):f=110:w=0\.3$/.exec(filter) ?? [];
+        const [, treble] = /^treble=g=(-?\d+(?:\.\d+)?)$/.exec(filter) ?? [];
+
+        if (bass) return { bass: parseFloat(bass) };
+        if (treble) return { treble: parseFloat(treble) };
+        return filter === "pan=mono|c0=.5*c0+.5*c1" ? { mono: true } : null;
     }
 };
 
@@ -0,0 +1,102 @@
+export type BiquadFilterType = "peaking" | "lowshelf" | "highshelf" | "highpass";
+
+class BiquadFilter {
+    public readonly type: BiquadFilterType;
+    public readonly frequency: number;
+    public readonly gain: number;
+    public readonly q: number;
+    private b0 = 1;
+    private b1 = 0;
+    private b2 = 0;
+    private a1 = 0;
+    private a2 = 0;
+    private readonly state: Float64Array;
+
+    /**
+     * Second order IIR filter, as described by the Audio EQ Cookbook
+     * @param {BiquadFilterType} type The filter type
+     * @param {number} frequency The center (or corner) frequency in Hz
+     * @param {number} gain The gain in dB, ignored by high-pass filters
+     * @param {number} [q=Math.SQRT1_2] The quality factor
+     * @param {number} [sampleRate=48000] The sample rate
+     * @param {number} [channels=2] The amount of interleaved channels
+     * @private
+     */
+    constructor(type: BiquadFilterType, frequency: number, gain: number, q = Math.SQRT1_2, sampleRate = 48000, channels = 2) {
+        this.type = type;
+        this.frequency = frequency;
+        this.gain = gain;
+        this.q = q;
+        // x1, x2, y1, y2 of each channel
+        this.state = new Float64Array(channels * 4);
+
+        const A = Math.pow(10, gain / 40);
+        const w0 = (2 * Math.PI * frequency) / sampleRate;
+        const cos = Math.cos(w0);
+        const alpha = Math.sin(w0) / (2 * q);
+        const sqrtA = 2 * Math.sqrt(A) * alpha;
+        let a0 = 1;
+
+        switch (type) {
+            case "peaking":
+                this.b0 = 1 + alpha * A;
+                this.b1 = -2 * cos;
+                this.b2 = 1 - alpha * A;
+                a0 = 1 + alpha / A;
+                this.a1 = -2 * cos;
+                this.a2 = 1 - alpha / A;
+                break;
+            case "lowshelf":
+                this.b0 = A * (A + 1 - (A - 1) * cos + sqrtA);
+                this.b1 = 2 * A * (A - 1 - (A + 1) * cos);
+                this.b2 = A * (A + 1 - (A - 1) * cos - sqrtA);
+                a0 = A + 1 + (A - 1) * cos + sqrtA;
+                this.a1 = -2 * (A - 1 + (A + 1) * cos);
+                this.a2 = A + 1 + (A - 1) * cos - sqrtA;
+                break;
+            case "highshelf":
+                this.b0 = A * (A + 1 + (A - 1) * cos + sqrtA);
+                this.b1 = -2 * A * (A - 1 + (A + 1) * cos);
+                this.b2 = A * (A + 1 + (A - 1) * cos - sqrtA);
+                a0 = A + 1 - (A - 1) * cos + sqrtA;
+                this.a1 = 2 * (A - 1 - (A + 1) * cos);
+                this.a2 = A + 1 - (A - 1) * cos - sqrtA;
+                break;
+            case "highpass":
+                this.b0 = (1 + cos) / 2;
+                this.b1 = -(1 + cos);
+                this.b2 = (1 + cos) / 2;
+                a0 = 1 + alpha;
+                this.a1 = -2 * cos;
+                this.a2 = 1 - alpha;
+                break;
+        }
+
+        this.b0 /= a0;
+        this.b1 /= a0;
+        this.b2 /= a0;
+        this.a1 /= a0;
+        this.a2 /= a0;
+    }
+
+    /**
+     * Filters a single sample
+     * @param {number} sample The sample
+     * @param {number} [channel=0] The channel of the sample
+     * @returns {number}
+     */
+    process(sample: number, channel = 0) {
+        const i = channel * 4;
+        const s = this.state;
+        const output = this.b0 * sample + this.b1 * s[i] + this.b2 * s[i + 1] - this.a1 * s[i + 2] - this.a2 * s[i + 3];
+
+        s[i + 1] = s[i];
+        s[i] = sample;
+        s[i + 3] = s[i + 2];
+        s[i + 2] = output;
+
+        return output;
+    }
+}
+
+export { BiquadFilter };
@@ -0,0 +1,132 @@
+import { User } from "discord.js";
+import { Player } from "../Player";
+import { Playlist } from "../Structures/Playlist";
+import Track from "../Structures/Track";
+import { DeezerCollectionData, DeezerPage, DeezerTrackData } from "../types/types";
+import { Util } from "./Util";
+
+const API_URL = "https://api.deezer.com";
+const urlRegex = /^https?:\/\/(?:www\.)?deezer\.com\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(track|album|playlist)\/(\d+)/i;
+// the maximum amount of tracks of a page of the API
+const PAGE_SIZE = 100;
+const DEFAULT_THUMBNAIL = "https://e-cdns-images.dzcdn.net/images/cover/500x500-000000-80-0-0.jpg";
+
+class Deezer {
+    /**
+     * Deezer utils, using the public API which does not require any token
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Parses the type and id of a Deezer url
+     * @param {string} url The url
+     * @returns {{ type: string, id: string }} The type (`track`, `album` or `playlist`) and id, `null` if the url is not a Deezer url
+     */
+    static parseURL(url: string): { type: "track" | "album" | "playlist"; id: string } {
+        const [, type, id] = urlRegex.exec(url) ?? [];
+        return type ? { type: type.toLowerCase() as "track" | "album" | "playlist", id } : null;
+    }
+
+    /**
+     * Fetches an API resource, such as `/track/3135556`
+     * @param {string} path The resource path or url
+     * @returns {Promise<object>}
+     */
+    static async get<T>(path: string): Promise<T> {
+        const data = JSON.parse(await Util.readBody(await Util.request(path.startsWith("http") ? path : `${API_URL}${path}`), 1 << 24));
+        // errors are sent with a 200 status
+        if (data?.error) throw new Error(`Deezer API error: ${data.error.message ?? data.error.type}`);
+
+        return data;
+    }
+
+    /**
+     * Resolves the track, album or playlist of a Deezer url. The remaining tracks of large albums and playlists are fetched by the playlist loader.
+     * @param {Player} player The player
+     * @param {string} url The url
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {Promise<{ playlist: Playlist, tracks: Track[] }>}
+     */
+    static async resolve(player: Player, url: string, requestedBy?: User): Promise<{ playlist: Playlist; tracks: Track[] }> {
+        const parsed = Deezer.parseURL(url);
+        if (!parsed) return { playlist: null, tracks: [] };
+
+        const resource = `/${parsed.type}/${parsed.id}`;
+        if (parsed.type === "track") return { playlist: null, tracks: [Deezer.createTrack(player, await Deezer.get<DeezerTrackData>(resource), requestedBy)] };
+
+        const playlist = Deezer.createPlaylist(player, await Deezer.get<DeezerCollectionData>(resource), requestedBy);
+        return { playlist, tracks: playlist.tracks };
+    }
+
+    /**
+     * Creates the track of an API track object
+     * @param {Player} player The player
+     * @param {DeezerTrackData} data The track object
+     * @param {User} [requestedBy] The user who requested this track
+     * @param {Playlist} [playlist] The playlist of this track
+     * @returns {Track}
+     */
+    static createTrack(player: Player, data: DeezerTrackData, requestedBy?: User, playlist?: Playlist) {
+        return new Track(player, {
+            title: data.title ?? "",
+            description: data.album?.title ?? "",
+            author: data.artist?.name ?? "Unknown Artist",
+            url: data.link ?? `https://www.deezer.com/track/${data.id}`,
+            thumbnail: data.album?.cover_xl ?? data.album?.cover_big ?? playlist?.thumbnail ?? DEFAULT_THUMBNAIL,
+            duration: Util.buildTimeCode(Util.parseMS((data.duration ?? 0) * 1000)),
+            views: 0,
+            requestedBy,
+            playlist,
+            source: "deezer",
+            raw: data
+        });
+    }
+
+    /**
+     * Creates the playlist of an API album or playlist object, with its first page of tracks
+     * @param {Player} player The player
+     * @param {DeezerCollectionData} data The album or playlist object
+     * @param {User} [requestedBy] The user who requested the tracks
+     * @returns {Playlist}
+     */
+    static createPlaylist(player: Player, data: DeezerCollectionData, requestedBy?: User) {
+        const album = data.type === "album";
+        const playlist = new Playlist(player, {
+            title: data.title ?? "",
+            description: data.description ?? "",
+            thumbnail: (album ? data.cover_xl : data.picture_xl) ?? DEFAULT_THUMBNAIL,
+            type: album ? "album" : "playlist",
+            source: "deezer",
+            author: album
+                ? {
+                      name: data.artist?.name ?? "Unknown Artist",
+                      url: data.artist?.link ?? null
+                  }
+                : {
+                      name: data.creator?.name ?? "Unknown Artist",
+                      url: data.creator?.id ? `https://www.deezer.com/profile/${data.creator.id}` : null
+                  },
+            tracks: [],
+            id: `${data.id}`,
+            url: data.link,
+            rawPlaylist: data
+        });
+
+        // album tracks do not include their album
+        const createTracks = (tracks: DeezerTrackData[]) => tracks.map((m) => Deezer.createTrack(player, album ? { album: data, ...m } : m, requestedBy, playlist));
+        playlist.tracks = createTracks(data.tracks?.data ?? []);
+
+        let next = `${API_URL}/${album ? "album" : "playlist"}/${data.id}/tracks?index=${playlist.tracks.length}&limit=${PAGE_SIZE}`;
+        playlist.setLoader(async () => {
+            if (!next) return [];
+            const page = await Deezer.get<DeezerPage>(next);
+            next = page.next ?? null;
+
+            return createTracks(page.data ?? []);
+        }, data.nb_tracks);
+
+        return playlist;
+    }
+}
+
+export { Deezer };
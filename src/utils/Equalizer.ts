@@ -0,0 +1,97 @@
+import { EqualizerBand } from "../types/types";
+
+// 15 bands spaced by 2/3 octave
+const frequencies = [25, 40, 63, 100, 160, 250, 400, 630, 1000, 1600, 2500, 4000, 6300, 10000, 16000];
+
+/**
+ * The available equalizer presets, as gains in dB for each band
+ * @typedef {object} EqualizerPresets
+ * @property {number[]} flat No gain on any band
+ * @property {number[]} bass Boosted low frequencies
+ * @property {number[]} treble Boosted high frequencies
+ * @property {number[]} rock The rock preset
+ * @property {number[]} pop The pop preset
+ * @property {number[]} jazz The jazz preset
+ * @property {number[]} classical The classical preset
+ * @property {number[]} electronic The electronic preset
+ * @property {number[]} vocal Boosted voice frequencies
+ */
+const presets: Record<string, number[]> = {
+    flat: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    bass: [8, 7, 6, 4, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    treble: [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 4, 6, 7, 8],
+    rock: [5, 4, 3, 1, -1, -2, -1, 1, 2, 3, 4, 4, 5, 5, 5],
+    pop: [-1, -1, 0, 1, 3, 4, 4, 3, 1, 0, -1, -1, -1, -1, -1],
+    jazz: [3, 3, 2, 1, 0, -1, -1, 0, 1, 2, 3, 3, 3, 3, 3],
+    classical: [4, 4, 3, 2, 0, 0, 0, 0, 0, 0, 1, 2, 3, 4, 4],
+    electronic: [6, 5, 4, 1, 0, -1, -2, 0, 1, 2, 3, 4, 4, 5, 5],
+    vocal: [-3, -3, -2, -1, 0, 2, 4, 5, 5, 4, 2, 0, -1, -2, -3]
+};
+
+class Equalizer {
+    /**
+     * The equalizer
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Maximum gain (and minimum with negative sign) of a band in dB
+     * @type {number}
+     */
+    static readonly MAX_GAIN = 20;
+
+    /**
+     * The center frequency of each band in Hz
+     * @type {number[]}
+     */
+    static get frequencies() {
+        return [...frequencies];
+    }
+
+    /**
+     * The names of the available presets
+     * @type {string[]}
+     */
+    static get presets() {
+        return Object.keys(presets);
+    }
+
+    /**
+     * Returns the gains of a preset
+     * @param {string} name The preset name
+     * @returns {number[]}
+     */
+    static getPreset(name: string) {
+        return presets[name] ? [...presets[name]] : null;
+    }
+
+    /**
+     * Defines a custom preset
+     * @param {string} name The preset name
+     * @param {number[]} gains The gain in dB of each band
+     * @returns {void}
+     */
+    static definePreset(name: string, gains: number[]) {
+        presets[name] = Equalizer.resolve(gains);
+    }
+
+    /**
+     * Resolves gains from bands or an array of gains, clamping each gain
+     * @param {EqualizerBand[]|number[]} bands The bands
+     * @param {number[]} [base=[]] The gains to apply the bands on
+     * @returns {number[]}
+     */
+    static resolve(bands: EqualizerBand[] | number[], base: number[] = []) {
+        const gains = frequencies.map((_, i) => base[i] ?? 0);
+
+        bands.forEach((band: EqualizerBand | number, i: number) => {
+            const [index, gain] = typeof band === "number" ? [i, band] : [band.band, band.gain];
+            if (!Number.isInteger(index) || index < 0 || index >= frequencies.length || typeof gain !== "number" || isNaN(gain)) return;
+            gains[index] = Math.max(-Equalizer.MAX_GAIN, Math.min(Equalizer.MAX_GAIN, gain));
+        });
+
+        return gains;
+    }
+}
+
+export { Equalizer };
@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { parseFile } from "music-metadata";
+import { User } from "discord.js";
+import { LocalFileInfo } from "../types/types";
+import { PlayerError, ErrorStatusCode } from "../Structures/PlayerError";
+import { Player } from "../Player";
+import { Playlist } from "../Structures/Playlist";
+import Track from "../Structures/Track";
+import { Util } from "./Util";
+
+const audioExtensions = [".mp3", ".flac", ".ogg", ".oga", ".opus", ".wav", ".m4a", ".aac", ".wma", ".webm", ".mka", ".aif", ".aiff"];
+
+class LocalFiles {
+    /**
+     * Local files utils
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Checks if the given query is an absolute path or a `file://` url
+     * @param {string} query The query
+     * @returns {boolean}
+     */
+    static isLocal(query: string) {
+        return query.startsWith("file://") || path.isAbsolute(query);
+    }
+
+    /**
+     * Checks if the given file has a supported audio extension
+     * @param {string} file The file path
+     * @returns {boolean}
+     */
+    static isAudioFile(file: string) {
+        return audioExtensions.includes(path.extname(file).toLowerCase());
+    }
+
+    /**
+     * Resolves the real path of a local query, making sure it is located in the given root directory
+     * @param {string} query The absolute path or `file://` url
+     * @param {string} root The allowed root directory
+     * @returns {Promise<string>}
+     */
+    static async resolve(query: string, root: string) {
+        if (!root) throw new PlayerError("Local files are disabled, set the localRoot option of the player to enable them", ErrorStatusCode.FORBIDDEN_PATH);
+
+        const file = await fs.realpath(query.startsWith("file://") ? fileURLToPath(query) : query);
+        // symlinks are resolved above, so they cannot escape the root either
+        if (!LocalFiles.contains(await fs.realpath(root), file)) throw new PlayerError(`"${file}" is outside of the allowed root directory`, ErrorStatusCode.FORBIDDEN_PATH);
+
+        return file;
+    }
+
+    /**
+     * Checks if the given path is located in the given directory (or is the directory itself)
+     * @param {string} directory The directory
+     * @param {string} file The path
+     * @returns {boolean}
+     */
+    static contains(directory: string, file: string) {
+        const relative = path.relative(directory, file);
+        return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+    }
+
+    /**
+     * Lists the audio files of a directory and its subdirectories, in natural order
+     * @param {string} directory The directory
+     * @returns {Promise<string[]>}
+     */
+    static async scanDirectory(directory: string): Promise<string[]> {
+        const entries = await fs.readdir(directory, { withFileTypes: true });
+        const files: string[] = [];
+
+        entries.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: "base" }));
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) files.push(...(await LocalFiles.scanDirectory(entryPath)));
+            else if (entry.isFile() && LocalFiles.isAudioFile(entry.name)) files.push(entryPath);
+        }
+
+        return files;
+    }
+
+    /**
+     * Reads the tags of an audio file
+     * @param {string} file The file path
+     * @param {boolean} [skipCover=false] If the cover art should not be read
+     * @returns {Promise<LocalFileInfo>}
+     */
+    static async getInfo(file: string, skipCover = false): Promise<LocalFileInfo> {
+        const { common, format } = await parseFile(file, { duration: true, skipCovers: skipCover });
+
+        return {
+            path: file,
+            title: common.title || path.basename(file, path.extname(file)),
+            artist: common.artist || common.albumartist || null,
+            album: common.album || null,
+            trackNumber: common.track?.no ?? null,
+            duration: format.duration ? Math.round(format.duration * 1000) : 0,
+            picture: common.picture?.length ? { format: common.picture[0].format, data: common.picture[0].data } : null
+        };
+    }
+
+    /**
+     * Creates the track of a local file
+     * @param {Player} player The player
+     * @param {LocalFileInfo} info The file info
+     * @param {User} [requestedBy] The user who requested this track
+     * @param {Playlist} [playlist] The playlist of this track
+     * @returns {Track}
+     */
+    static createTrack(player: Player, info: LocalFileInfo, requestedBy?: User, playlist?: Playlist) {
+        return new Track(player, {
+            title: info.title,
+            description: info.album ?? "",
+            author: info.artist ?? "Unknown artist",
+            url: pathToFileURL(info.path).href,
+            requestedBy,
+            thumbnail: "",
+            views: 0,
+            duration: Util.buildTimeCode(Util.parseMS(info.duration)),
+            playlist,
+            source: "local",
+            raw: info
+        });
+    }
+}
+
+export { LocalFiles };
@@ -0,0 +1,111 @@
+import { BiquadFilter } from "./BiquadFilter";
+
+// ITU-R BS.1770 gating
+const BLOCK_STEPS = 4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+// the block loudnesses are counted in a histogram of 0.1 LU bins from the absolute gate up to +10 LUFS
+const HISTOGRAM_STEP = 0.1;
+const HISTOGRAM_SIZE = Math.round((10 - ABSOLUTE_GATE) / HISTOGRAM_STEP);
+
+const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+class LoudnessMeter {
+    public readonly sampleRate: number;
+    public readonly channels: number;
+    private readonly filters: BiquadFilter[];
+    private readonly stepFrames: number;
+    // amount and summed power of the blocks in each bin, so long streams use constant memory
+    private readonly blockCounts = new Float64Array(HISTOGRAM_SIZE);
+    private readonly blockPowers = new Float64Array(HISTOGRAM_SIZE);
+    private steps: number[] = [];
+    private stepPower = 0;
+    private stepFrame = 0;
+    private frames = 0;
+
+    /**
+     * Measures the integrated loudness (LUFS) of a PCM (s16le) stream, as specified by ITU-R BS.1770
+     * @param {number} [sampleRate=48000] The sample rate
+     * @param {number} [channels=2] The amount of interleaved channels
+     * @private
+     */
+    constructor(sampleRate = 48000, channels = 2) {
+        this.sampleRate = sampleRate;
+        this.channels = channels;
+        // K-weighting
+        this.filters = [new BiquadFilter("highshelf", 1681.97, 4, 0.7072, sampleRate, channels), new BiquadFilter("highpass", 38.13, 0, 0.5003, sampleRate, channels)];
+        // 400ms blocks overlapping by 75%
+        this.stepFrames = Math.round(sampleRate / 10);
+    }
+
+    /**
+     * The duration of the measured audio in ms
+     * @type {number}
+     */
+    get duration() {
+        return (this.frames / this.sampleRate) * 1000;
+    }
+
+    /**
+     * The gated integrated loudness in LUFS, `-Infinity` if nothing audible was measured
+     * @type {number}
+     */
+    get integrated() {
+        const audible = this.sumBlocks(0);
+        if (!audible.count) return -Infinity;
+
+        const threshold = toLoudness(audible.power / audible.count) + RELATIVE_GATE;
+        const gated = this.sumBlocks(Math.max(0, Math.ceil((threshold - ABSOLUTE_GATE) / HISTOGRAM_STEP)));
+
+        return toLoudness(gated.power / gated.count);
+    }
+
+    /**
+     * Measures the given chunk, which must only contain whole frames
+     * @param {Buffer} chunk The PCM chunk
+     * @returns {void}
+     */
+    process(chunk: Buffer) {
+        const frameSize = this.channels * 2;
+
+        for (let offset = 0; offset + frameSize <= chunk.length; offset += frameSize) {
+            for (let channel = 0; channel < this.channels; channel++) {
+                let sample = chunk.readInt16LE(offset + channel * 2) / 32768;
+                for (const filter of this.filters) sample = filter.process(sample, channel);
+                this.stepPower += sample * sample;
+            }
+
+            this.frames++;
+            if (++this.stepFrame < this.stepFrames) continue;
+
+            this.steps.push(this.stepPower / this.stepFrames);
+            if (this.steps.length > BLOCK_STEPS) this.steps = this.steps.slice(-BLOCK_STEPS);
+            if (this.steps.length === BLOCK_STEPS) this.addBlock(this.steps.reduce((a, b) => a + b, 0) / BLOCK_STEPS);
+            this.stepPower = 0;
+            this.stepFrame = 0;
+        }
+    }
+
+    private sumBlocks(from: number) {
+        let count = 0;
+        let power = 0;
+
+        for (let i = from; i < HISTOGRAM_SIZE; i++) {
+            count += this.blockCounts[i];
+            power += this.blockPowers[i];
+        }
+
+        return { count, power };
+    }
+
+    private addBlock(power: number) {
+        const loudness = toLoudness(power);
+        if (!(loudness > ABSOLUTE_GATE)) return;
+
+        const bin = Math.min(HISTOGRAM_SIZE - 1, Math.floor((loudness - ABSOLUTE_GATE) / HISTOGRAM_STEP));
+        this.blockCounts[bin]++;
+        this.blockPowers[bin] += power;
+    }
+}
+
+export { LoudnessMeter };
@@ -0,0 +1,292 @@
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { User } from "discord.js";
+import { PlaylistFileEntry, PlaylistFileFormat } from "../types/types";
+import { PlayerError, ErrorStatusCode } from "../Structures/PlayerError";
+import { Player } from "../Player";
+import { Playlist } from "../Structures/Playlist";
+import Track from "../Structures/Track";
+import { Util } from "./Util";
+
+const formats: PlaylistFileFormat[] = ["m3u", "m3u8", "pls", "xspf"];
+
+const escapeXML = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+const unescapeXML = (text: string) =>
+    text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+
+const decodeName = (name: string) => {
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+};
+const readTag = (content: string, name: string) => {
+    const match = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "i").exec(content);
+    return match ? unescapeXML(match[1]).trim() : undefined;
+};
+
+// "Artist - Title" as written by most players
+const splitTitle = (text: string): Pick<PlaylistFileEntry, "author" | "title"> => {
+    const index = text.indexOf(" - ");
+    return index === -1 ? { title: text.trim() } : { author: text.slice(0, index).trim(), title: text.slice(index + 3).trim() };
+};
+
+class PlaylistFiles {
+    /**
+     * M3U, PLS and XSPF playlist files utils
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * The supported formats
+     * @type {PlaylistFileFormat[]}
+     */
+    static get formats() {
+        return [...formats];
+    }
+
+    /**
+     * Checks if the given M3U content is a HLS media playlist, which describes a single stream rather than tracks
+     * @param {string} content The playlist content
+     * @returns {boolean}
+     */
+    static isHLS(content: string) {
+        return /^#EXT-X-/m.test(content);
+    }
+
+    /**
+     * Detects the format of a playlist from its content
+     * @param {string} content The playlist content
+     * @returns {PlaylistFileFormat}
+     */
+    static detectFormat(content: string): PlaylistFileFormat {
+        const head = content.trimStart().slice(0, 256).toLowerCase();
+        if (head.startsWith("<?xml") || head.startsWith("<playlist")) return "xspf";
+        if (head.startsWith("[playlist]")) return "pls";
+        return "m3u";
+    }
+
+    /**
+     * Parses the entries of a playlist
+     * @param {string} content The playlist content
+     * @param {PlaylistFileFormat} [format] The format, detected from the content if omitted
+     * @returns {PlaylistFileEntry[]}
+     */
+    static parse(content: string, format: PlaylistFileFormat = PlaylistFiles.detectFormat(content)): PlaylistFileEntry[] {
+        // byte order mark
+        content = content.replace(/^\uFEFF/, "");
+
+        switch (format) {
+            case "pls": {
+                const entries = new Map<number, PlaylistFileEntry>();
+                const entry = (index: number) => entries.get(index) ?? entries.set(index, {}).get(index);
+
+                for (const line of content.split(/\r?\n/)) {
+                    const [, key, index, value] = /^\s*(file|title|length)(\d+)\s*=(.*)$/i.exec(line) ?? [];
+                    if (!key) continue;
+
+                    const length = parseInt(value);
+                    if (key.toLowerCase() === "file") entry(parseInt(index)).location = value.trim();
+                    else if (key.toLowerCase() === "title") Object.assign(entry(parseInt(index)), splitTitle(value));
+                    else if (length > 0) entry(parseInt(index)).duration = length * 1000;
+                }
+
+                return [...entries.entries()]
+                    .sort(([a], [b]) => a - b)
+                    .map(([, m]) => m)
+                    .filter((m) => !!m.location);
+            }
+            case "xspf": {
+                const entries: PlaylistFileEntry[] = [];
+                const regex = /<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi;
+                let match: RegExpExecArray;
+
+                while ((match = regex.exec(content))) {
+                    const duration = parseInt(readTag(match[1], "duration"));
+                    const entry: PlaylistFileEntry = {
+                        location: readTag(match[1], "location"),
+                        title: readTag(match[1], "title"),
+                        author: readTag(match[1], "creator"),
+                        duration: duration > 0 ? duration : undefined,
+                        thumbnail: readTag(match[1], "image")
+                    };
+                    if (entry.location || entry.title) entries.push(entry);
+                }
+
+                return entries;
+            }
+            default: {
+                const entries: PlaylistFileEntry[] = [];
+                let info: PlaylistFileEntry = {};
+
+                for (const line of content.split(/\r?\n/).map((m) => m.trim())) {
+                    if (!line) continue;
+                    if (line.toUpperCase().startsWith("#EXTINF:")) {
+                        const [, length, title] = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i.exec(line) ?? [];
+                        info = { ...splitTitle(title ?? ""), duration: parseFloat(length) > 0 ? Math.round(parseFloat(length) * 1000) : undefined };
+                    } else if (!line.startsWith("#")) {
+                        entries.push({ ...info, location: line });
+                        info = {};
+                    }
+                }
+
+                return entries;
+            }
+        }
+    }
+
+    /**
+     * Reads the title of a playlist, from the XSPF `<title>` or the M3U `#PLAYLIST` directive
+     * @param {string} content The playlist content
+     * @param {PlaylistFileFormat} [format] The format, detected from the content if omitted
+     * @returns {string} The title, `null` if the playlist has none
+     */
+    static getTitle(content: string, format: PlaylistFileFormat = PlaylistFiles.detectFormat(content)) {
+        if (format === "xspf") return readTag(content.split(/<trackList/i)[0], "title") || null;
+        if (format === "pls") return null;
+
+        return /^#PLAYLIST:(.*)$/im.exec(content)?.[1].trim() || null;
+    }
+
+    /**
+     * Resolves the relative location of an entry against the path or url of its playlist
+     * @param {PlaylistFileEntry} entry The entry
+     * @param {string} base The path or url of the playlist
+     * @returns {PlaylistFileEntry}
+     */
+    static resolveLocation(entry: PlaylistFileEntry, base: string): PlaylistFileEntry {
+        const location = entry.location;
+        if (!location || /^[a-z][a-z\d+.-]+:/i.test(location) || path.isAbsolute(location)) return entry;
+
+        return { ...entry, location: /^https?:\/\//i.test(base) ? new URL(location, base).href : path.resolve(path.dirname(base), location) };
+    }
+
+    /**
+     * Creates the track of a playlist entry, which is only resolved when it is about to be played
+     * @param {Player} player The player
+     * @param {PlaylistFileEntry} entry The entry
+     * @param {User} [requestedBy] The user who requested this track
+     * @param {Playlist} [playlist] The playlist of this track
+     * @returns {Track}
+     */
+    static createTrack(player: Player, entry: PlaylistFileEntry, requestedBy?: User, playlist?: Playlist) {
+        const name = entry.location ? path.basename(entry.location.split(/[?#]/)[0]) : "";
+
+        return new Track(player, {
+            title: entry.title || decodeName(name.slice(0, name.length - path.extname(name).length)) || "Unknown title",
+            description: "",
+            author: entry.author ?? "",
+            url: entry.location ?? "",
+            requestedBy,
+            thumbnail: entry.thumbnail ?? "",
+            views: 0,
+            duration: Util.buildTimeCode(Util.parseMS(entry.duration ?? 0)),
+            playlist,
+            source: "arbitrary",
+            raw: { ...entry, lazy: true }
+        });
+    }
+
+    /**
+     * Checks if the given track is a playlist entry which has not been resolved yet
+     * @param {Track} track The track
+     * @returns {boolean}
+     */
+    static isUnresolved(track: Track) {
+        return !!(track.raw as { lazy?: boolean }).lazy;
+    }
+
+    /**
+     * Resolves the actual track of a playlist entry by searching its location (or its artist and title), adopting its data
+     * @param {Player} player The player
+     * @param {Track} track The track created by {@link PlaylistFiles.createTrack}
+     * @returns {Promise<boolean>} If the track could be resolved
+     */
+    static async resolveTrack(player: Player, track: Track) {
+        if (!PlaylistFiles.isUnresolved(track)) return true;
+
+        const location = (track.raw as { location?: string }).location;
+        const query = location ?? [track.author, track.title].filter((m) => !!m).join(" ");
+        const { tracks } = await player.search(query, { requestedBy: track.requestedBy }).catch(() => ({ tracks: [] as Track[] }));
+        // nested playlist files are not followed
+        const resolved = tracks[0];
+        if (!resolved || PlaylistFiles.isUnresolved(resolved)) return false;
+
+        Object.assign(track, {
+            title: resolved.title,
+            author: resolved.author,
+            url: resolved.url,
+            thumbnail: resolved.thumbnail || track.thumbnail,
+            duration: resolved.duration,
+            views: resolved.views,
+            live: resolved.live
+        });
+        Object.assign(track.raw, resolved.raw, { lazy: false });
+
+        return true;
+    }
+
+    /**
+     * Writes the given tracks as a playlist file
+     * @param {Track[]} tracks The tracks
+     * @param {PlaylistFileFormat} [format="m3u"] The format
+     * @param {string} [title] The playlist title, only written by XSPF
+     * @returns {string}
+     */
+    static export(tracks: Track[], format: PlaylistFileFormat = "m3u", title?: string) {
+        if (!formats.includes(format)) throw new PlayerError(`Unknown playlist format "${format}"`, ErrorStatusCode.INVALID_ARG_TYPE);
+
+        // XSPF locations are URIs, while desktop players expect paths rather than file urls in the other formats
+        const location = (track: Track) => {
+            if (format === "xspf") return path.isAbsolute(track.url) ? pathToFileURL(track.url).href : track.url;
+            return track.url.startsWith("file://") ? fileURLToPath(track.url) : track.url;
+        };
+        const seconds = (track: Track) => (track.live || !track.durationMS ? -1 : Math.round(track.durationMS / 1000));
+        const name = (track: Track) => (track.author ? `${track.author} - ${track.title}` : track.title);
+
+        switch (format) {
+            case "pls":
+                return [
+                    "[playlist]",
+                    ...tracks.map((m, i) => `File${i + 1}=${location(m)}\nTitle${i + 1}=${name(m)}\nLength${i + 1}=${seconds(m)}`),
+                    `NumberOfEntries=${tracks.length}`,
+                    "Version=2",
+                    ""
+                ].join("\n");
+            case "xspf":
+                return [
+                    '<?xml version="1.0" encoding="UTF-8"?>',
+                    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+                    ...(title ? [`  <title>${escapeXML(title)}</title>`] : []),
+                    "  <trackList>",
+                    ...tracks.map((m) =>
+                        [
+                            "    <track>",
+                            `      <location>${escapeXML(location(m))}</location>`,
+                            `      <title>${escapeXML(m.title)}</title>`,
+                            ...(m.author ? [`      <creator>${escapeXML(m.author)}</creator>`] : []),
+                            ...(seconds(m) > 0 ? [`      <duration>${m.durationMS}</duration>`] : []),
+                            ...(m.thumbnail ? [`      <image>${escapeXML(m.thumbnail)}</image>`] : []),
+                            "    </track>"
+                        ].join("\n")
+                    ),
+                    "  </trackList>",
+                    "</playlist>",
+                    ""
+                ].join("\n");
+            default:
+                return ["#EXTM3U", ...tracks.map((m) => `#EXTINF:${seconds(m)},${name(m)}\n${location(m)}`), ""].join("\n");
+        }
+    }
+}
+
+export { PlaylistFiles };
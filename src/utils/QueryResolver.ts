@@ -1,6 +1,9 @@
 import { validateID, validateURL } from "ytdl-core";
 import { YouTube } from "youtube-sr";
 import { QueryType } from "../types/types";
+import { LocalFiles } from "./LocalFiles";
+import { Deezer } from "./Deezer";
+import { AppleMusic } from "./AppleMusic";
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import { validateURL as SoundcloudValidateURL } from "soundcloud-scraper";
@@ -12,6 +15,10 @@ const spotifyAlbumRegex = /https?:\/\/(?:embed\.|open\.)(?:spotify\.com\/)(?:alb
 const vimeoRegex = /(http|https)?:\/\/(www\.|player\.)?vimeo\.com\/(?:channels\/(?:\w+\/)?|groups\/([^/]*)\/videos\/|video\/|)(\d+)(?:|\/\?)/;
 const facebookRegex = /(https?:\/\/)(www\.|m\.)?(facebook|fb).com\/.*\/videos\/.*/;
 const reverbnationRegex = /https:\/\/(www.)?reverbnation.com\/(.+)\/song\/(.+)/;
+// SHOUTcast "/;" stream paths
+const radioRegex = /^https?:\/\/[^\s/]+\/;\S*$/i;
+// M3U/PLS/XSPF playlists, radio playlists are told apart once downloaded
+const playlistFileRegex = /\.(?:m3u8?|pls|xspf)(?:[?#]\S*)?$/i;
 const attachmentRegex =
     /^(?:(?:https?|ftp):\/\/)?(?:(?!(?:10|127)(?:\.\d{1,3}){3})(?!(?:169\.254|192\.168)(?:\.\d{1,3}){2})(?!172\.(?:1[6-9]|2\d|3[0-1])(?:\.\d{1,3}){2})(?:[1-9]\d?|1\d\d|2[01]\d|22[0-3])(?:\.(?:1?\d{1,2}|2[0-4]\d|25[0-5])){2}(?:\.(?:[1-9]\d?|1\d\d|2[0-4]\d|25[0-4]))|(?:(?:[a-z\u00a1-\uffff0-9]-*)*[a-z\u00a1-\uffff0-9]+)(?:\.(?:[a-z\u00a1-\uffff0-9]-*)*[a-z\u00a1-\uffff0-9]+)*(?:\.(?:[a-z\u00a1-\uffff]{2,})))(?::\d{2,5})?(?:\/\S*)?$/;
 // scary things above *sigh*
@@ -25,9 +32,14 @@ class QueryResolver {
     /**
      * Resolves the given search query
      * @param {string} query The query
+     * @param {boolean} [local=true] Whether paths resolve to local files, they are searched on YouTube otherwise
      * @returns {QueryType}
      */
-    static resolve(query: string): QueryType {
+    static resolve(query: string, local = true): QueryType {
+        const deezer = Deezer.parseURL(query);
+        const appleMusic = AppleMusic.parseURL(query);
+
+        if (local && LocalFiles.isLocal(query)) return playlistFileRegex.test(query) ? QueryType.PLAYLIST_FILE : QueryType.LOCAL;
         if (SoundcloudValidateURL(query, "track")) return QueryType.SOUNDCLOUD_TRACK;
         if (SoundcloudValidateURL(query, "playlist") || query.includes("/sets/")) return QueryType.SOUNDCLOUD_PLAYLIST;
         if (YouTube.isPlaylist(query)) return QueryType.YOUTUBE_PLAYLIST;
@@ -35,9 +47,13 @@ class QueryResolver {
         if (spotifySongRegex.test(query)) return QueryType.SPOTIFY_SONG;
         if (spotifyPlaylistRegex.test(query)) return QueryType.SPOTIFY_PLAYLIST;
         if (spotifyAlbumRegex.test(query)) return QueryType.SPOTIFY_ALBUM;
+        if (deezer) return deezer.type === "track" ? QueryType.DEEZER_SONG : deezer.type === "album" ? QueryType.DEEZER_ALBUM : QueryType.DEEZER_PLAYLIST;
+        if (appleMusic) return appleMusic.type === "song" ? QueryType.APPLE_MUSIC_SONG : appleMusic.type === "album" ? QueryType.APPLE_MUSIC_ALBUM : QueryType.APPLE_MUSIC_PLAYLIST;
         if (vimeoRegex.test(query)) return QueryType.VIMEO;
         if (facebookRegex.test(query)) return QueryType.FACEBOOK;
         if (reverbnationRegex.test(query)) return QueryType.REVERBNATION;
+        if (/^https?:\/\/\S+$/i.test(query) && playlistFileRegex.test(query)) return QueryType.PLAYLIST_FILE;
+        if (radioRegex.test(query)) return QueryType.RADIO;
         if (attachmentRegex.test(query)) return QueryType.ARBITRARY;
 
         return QueryType.YOUTUBE_SEARCH;
@@ -0,0 +1,129 @@
+import { User } from "discord.js";
+import { RadioStation } from "../types/types";
+import { Player } from "../Player";
+import Track from "../Structures/Track";
+import { Util } from "./Util";
+
+const playlistTypes = ["audio/x-mpegurl", "audio/mpegurl", "audio/x-scpls", "application/pls+xml"];
+const playlistRegex = /\.(?:m3u|pls)$/i;
+
+class Radio {
+    /**
+     * Internet radio (Icecast/SHOUTcast) utils
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Resolves the station streaming at the given url, following M3U/PLS playlists
+     * @param {string} url The stream or playlist url
+     * @param {number} [depth=1] The amount of nested playlists to follow
+     * @returns {Promise<RadioStation>} The station, `null` if the url is not an internet radio
+     */
+    static async probe(url: string, depth = 1): Promise<RadioStation> {
+        const res = await Util.request(url, { "Icy-MetaData": "1" });
+        const header = (name: string) => {
+            const value = res.headers[name];
+            return (Array.isArray(value) ? value[0] : value)?.trim();
+        };
+        const contentType = (header("content-type") ?? "").split(";")[0].trim().toLowerCase();
+
+        if (playlistTypes.includes(contentType) || playlistRegex.test(new URL(url).pathname)) {
+            const entries = depth > 0 ? Radio.parsePlaylist(await Util.readBody(res)) : [];
+            if (!entries.length) res.destroy();
+
+            for (const entry of entries) {
+                const station = await Radio.probe(new URL(entry, url).href, depth - 1).catch(Util.noop);
+                if (station) return station;
+            }
+
+            return null;
+        }
+
+        res.destroy();
+        if (!Object.keys(res.headers).some((m) => m.startsWith("icy-") || m.startsWith("ice-"))) return null;
+
+        return {
+            url,
+            name: header("icy-name") || new URL(url).hostname,
+            description: header("icy-description") ?? "",
+            genre: header("icy-genre") ?? "",
+            homepage: header("icy-url") ?? "",
+            bitrate: parseInt(header("icy-br")) || null,
+            contentType
+        };
+    }
+
+    /**
+     * Creates the live track of a station
+     * @param {Player} player The player
+     * @param {RadioStation} station The station
+     * @param {User} [requestedBy] The user who requested this track
+     * @returns {Track}
+     */
+    static createTrack(player: Player, station: RadioStation, requestedBy?: User) {
+        return new Track(player, {
+            title: station.name,
+            description: station.description,
+            author: station.genre || station.name,
+            url: station.url,
+            requestedBy,
+            thumbnail: "",
+            views: 0,
+            duration: "0:00",
+            source: "radio",
+            live: true,
+            raw: station
+        });
+    }
+
+    /**
+     * Parses the stream urls of a M3U or PLS playlist
+     * @param {string} content The playlist content
+     * @returns {string[]}
+     */
+    static parsePlaylist(content: string) {
+        const lines = content
+            .split(/\r?\n/)
+            .map((m) => m.trim())
+            .filter((m) => !!m);
+
+        // PLS
+        if (lines[0]?.toLowerCase() === "[playlist]") {
+            return lines.filter((m) => /^file\d+=/i.test(m)).map((m) => m.slice(m.indexOf("=") + 1).trim());
+        }
+
+        // M3U
+        return lines.filter((m) => !m.startsWith("#"));
+    }
+
+    /**
+     * Parses an ICY metadata block, such as `StreamTitle='Artist - Title';StreamUrl='';`
+     * @param {string} content The metadata block
+     * @returns {Record<string, string>}
+     */
+    static parseMetadata(content: string) {
+        const metadata: Record<string, string> = {};
+        // values are not escaped, so a value only ends before the next key or the end of the block
+        const regex = /(\w+)='([\s\S]*?)';(?=\w+=|[\s\0]*$)/g;
+        const block = content.replace(/\0+$/, "");
+        let match: RegExpExecArray;
+
+        while ((match = regex.exec(block))) metadata[match[1]] = match[2];
+
+        return metadata;
+    }
+
+    /**
+     * Splits a `StreamTitle` into the artist and song title, as most stations use the `Artist - Title` format
+     * @param {string} streamTitle The stream title
+     * @returns {{ author: string, title: string }}
+     */
+    static parseStreamTitle(streamTitle: string) {
+        const index = streamTitle.indexOf(" - ");
+        if (index === -1) return { author: null, title: streamTitle.trim() };
+
+        return { author: streamTitle.slice(0, index).trim(), title: streamTitle.slice(index + 3).trim() };
+    }
+}
+
+export { Radio };
@@ -0,0 +1,60 @@
+import Track from "../Structures/Track";
+import { Util } from "./Util";
+
+// durations closer than this (in ms) are considered equal
+const DURATION_TOLERANCE = 3000;
+// words added by uploaders which do not tell different recordings apart
+const NOISE_WORDS = ["official", "video", "audio", "music", "topic", "vevo", "hd", "hq", "feat", "ft"];
+
+const getKey = (track: Track) =>
+    [...new Set(Util.tokenize(`${track.author} ${track.title}`))]
+        .filter((m) => !NOISE_WORDS.includes(m))
+        .sort()
+        .join(" ");
+
+class SearchRanker {
+    /**
+     * Ranking utils of aggregated searches
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * The default scorer, favoring the results whose title and author contain the words of the query and the ones ranked first by their engine
+     * @param {Track} track The result
+     * @param {string} query The search query
+     * @param {number} rank The position of the result in the results of its engine, from `0`
+     * @returns {number} The score, from `0` to `1`
+     */
+    static score(track: Track, query: string, rank: number) {
+        const tokens = Util.tokenize(query);
+        const text = Util.tokenize(`${track.author} ${track.title}`);
+        const relevance = tokens.length ? tokens.filter((m) => text.includes(m)).length / tokens.length : 0;
+
+        return 0.7 * relevance + 0.3 / (rank + 1);
+    }
+
+    /**
+     * Checks if two results are near-identical: the same url, or the same words in their title and author with the same duration
+     * @param {Track} a The first result
+     * @param {Track} b The second result
+     * @returns {boolean}
+     */
+    static isDuplicate(a: Track, b: Track) {
+        if (a.url && a.url === b.url) return true;
+        if (a.durationMS && b.durationMS && Math.abs(a.durationMS - b.durationMS) > DURATION_TOLERANCE) return false;
+
+        const key = getKey(a);
+        return !!key && key === getKey(b);
+    }
+
+    /**
+     * Removes the near-identical results, keeping the first one
+     * @param {Track[]} tracks The results
+     * @returns {Track[]}
+     */
+    static dedupe(tracks: Track[]) {
+        return tracks.reduce((acc, track) => (acc.some((m) => SearchRanker.isDuplicate(m, track)) ? acc : [...acc, track]), [] as Track[]);
+    }
+}
+
+export { SearchRanker };
@@ -0,0 +1,116 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+import { keygen } from "soundcloud-scraper";
+import { User } from "discord.js";
+import { Player } from "../Player";
+import { Playlist } from "../Structures/Playlist";
+import Track from "../Structures/Track";
+import { Util } from "./Util";
+
+const API_URL = "https://api-v2.soundcloud.com";
+// the maximum amount of ids of a tracks request
+const MAX_IDS = 50;
+const MAX_BODY_SIZE = 1 << 24;
+
+class SoundCloudAPI {
+    /**
+     * SoundCloud API utils, used where the scraper lacks data, such as the tracks of a playlist which are only listed by id in its page
+     * @private
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * The maximum amount of tracks fetched at once by {@link SoundCloudAPI.getTracks}
+     * @type {number}
+     */
+    static get maxTracks() {
+        return MAX_IDS;
+    }
+
+    /**
+     * Returns the ids of every track of a playlist, in order
+     * @param {string} url The playlist url
+     * @returns {Promise<number[]>}
+     */
+    static async getPlaylistTrackIds(url: string): Promise<number[]> {
+        const data = await SoundCloudAPI.#get(`/resolve?url=${encodeURIComponent(url)}`);
+        return (data.tracks ?? []).map((m: { id: number }) => m.id);
+    }
+
+    /**
+     * Fetches tracks by id, in the order of the given ids
+     * @param {number[]} ids The track ids, at most 50
+     * @returns {Promise<any[]>}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static async getTracks(ids: number[]): Promise<any[]> {
+        if (!ids.length) return [];
+        const data = await SoundCloudAPI.#get(`/tracks?ids=${ids.slice(0, MAX_IDS).join(",")}`);
+
+        // the tracks are not sorted, and private or deleted ones are missing
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return ids.map((id) => (data as any[]).find((m) => m.id === id)).filter((m) => !!m);
+    }
+
+    /**
+     * Searches tracks
+     * @param {string} query The query
+     * @param {number} [limit=10] The maximum amount of tracks
+     * @param {number} [offset=0] The amount of results to skip
+     * @returns {Promise<any[]>}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static async searchTracks(query: string, limit = 10, offset = 0): Promise<any[]> {
+        const data = await SoundCloudAPI.#get(`/search/tracks?q=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}`);
+        return data.collection ?? [];
+    }
+
+    /**
+     * Returns the tracks related to a track
+     * @param {string} url The track url
+     * @param {number} [limit=10] The maximum amount of tracks
+     * @returns {Promise<any[]>}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static async getRelatedTracks(url: string, limit = 10): Promise<any[]> {
+        const track = await SoundCloudAPI.#get(`/resolve?url=${encodeURIComponent(url)}`);
+        if (!track?.id) return [];
+
+        const data = await SoundCloudAPI.#get(`/tracks/${track.id}/related?limit=${limit}`);
+        return data.collection ?? [];
+    }
+
+    /**
+     * Creates the track of an API track object
+     * @param {Player} player The player
+     * @param {any} data The track object
+     * @param {User} [requestedBy] The user who requested this track
+     * @param {Playlist} [playlist] The playlist of this track
+     * @returns {Track}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static createTrack(player: Player, data: any, requestedBy?: User, playlist?: Playlist) {
+        return new Track(player, {
+            title: data.title,
+            description: data.description ?? "",
+            author: data.user?.username ?? "Unknown Artist",
+            url: data.permalink_url,
+            thumbnail: data.artwork_url ?? data.user?.avatar_url ?? "",
+            duration: Util.buildTimeCode(Util.parseMS(data.full_duration ?? data.duration)),
+            views: data.playback_count ?? 0,
+            requestedBy,
+            playlist,
+            source: "soundcloud"
+        });
+    }
+
+    static async #get(path: string) {
+        const clientId: string = await keygen();
+        if (!clientId) throw new Error("Could not fetch the SoundCloud client id");
+
+        const res = await Util.request(`${API_URL}${path}${path.includes("?") ? "&" : "?"}client_id=${clientId}`);
+        return JSON.parse(await Util.readBody(res, MAX_BODY_SIZE));
+    }
+}
+
+export { SoundCloudAPI };
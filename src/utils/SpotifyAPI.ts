@@ -0,0 +1,55 @@
+import { Util } from "./Util";
+
+// the anonymous token used by the Spotify embeds
+const TOKEN_URL = "https://open.spotify.com/get_access_token?reason=transport&productType=embed";
+const API_URL = "https://api.spotify.com/v1";
+// pages of 100 tracks easily exceed the default body limit of Util.readBody
+const MAX_PAGE_SIZE = 1 << 24;
+
+let token: { value: string; expires: number } = null;
+
+class SpotifyAPI {
+    /**
+     * Spotify web API utils, used to page through playlists and albums beyond the tracks of their embed
+     * @private
+     */
+    private constructor() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Returns an anonymous access token, fetching a new one once it expires
+     * @returns {Promise<string>}
+     */
+    static async getToken() {
+        if (token && token.expires > Date.now()) return token.value;
+
+        const data = JSON.parse(await Util.readBody(await Util.request(TOKEN_URL)));
+        // renewed a bit before it actually expires
+        token = { value: data.accessToken, expires: (data.accessTokenExpirationTimestampMs ?? 0) - 10000 };
+
+        return token.value;
+    }
+
+    /**
+     * Returns the url of a page of tracks of a playlist or an album
+     * @param {string} type The type, `playlist` or `album`
+     * @param {string} id The playlist or album id
+     * @param {number} offset The index of the first track of the page
+     * @returns {string}
+     */
+    static getTracksURL(type: "playlist" | "album", id: string, offset: number) {
+        return `${API_URL}/${type}s/${id}/tracks?offset=${offset}&limit=${type === "playlist" ? 100 : 50}`;
+    }
+
+    /**
+     * Fetches a page of a paging object, such as the `next` url of the tracks of a playlist
+     * @param {string} url The page url
+     * @returns {Promise<{ items: any[], next: string, total: number }>}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static async getPage(url: string): Promise<{ items: any[]; next: string; total: number }> {
+        const res = await Util.request(url, { Authorization: `Bearer ${await SpotifyAPI.getToken()}` });
+        return JSON.parse(await Util.readBody(res, MAX_PAGE_SIZE));
+    }
+}
+
+export { SpotifyAPI };
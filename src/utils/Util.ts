@@ -1,5 +1,7 @@
 import { StageChannel, VoiceChannel } from "discord.js";
 import { TimeData } from "../types/types";
+import http, { IncomingMessage } from "http";
+import https from "https";
 
 class Util {
     /**
@@ -94,6 +96,71 @@ class Util {
         return new Promise((r) => setTimeout(r, time).unref());
     }
 
+    /**
+     * Sends a GET request, following redirects. The response body is left unread, and the 10s timeout stops once the response arrives.
+     * @param {string} url The url
+     * @param {Record<string, string>} [headers={}] The request headers
+     * @param {number} [redirects=5] The maximum amount of redirects
+     * @returns {Promise<IncomingMessage>}
+     */
+    static request(url: string, headers: Record<string, string> = {}, redirects = 5): Promise<IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            const req = (url.startsWith("https:") ? https : http).get(url, { headers }, (res) => {
+                // only the response headers are awaited with a timeout, streams may stop being read for longer (e.g. paused radios)
+                req.setTimeout(0);
+                if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+                    res.resume();
+                    if (redirects <= 0) return reject(new Error(`Too many redirects for ${url}`));
+                    return resolve(Util.request(new URL(res.headers.location, url).href, headers, redirects - 1));
+                }
+                if (res.statusCode < 200 || res.statusCode >= 300) {
+                    res.resume();
+                    return reject(new Error(`Request to ${url} failed with status ${res.statusCode}`));
+                }
+
+                resolve(res);
+            });
+
+            req.setTimeout(10000, () => req.destroy(new Error(`Request to ${url} timed out`)));
+            req.on("error", reject);
+        });
+    }
+
+    /**
+     * Reads a response body as text
+     * @param {IncomingMessage} res The response
+     * @param {number} [limit=1048576] The maximum body size in bytes
+     * @returns {Promise<string>}
+     */
+    static readBody(res: IncomingMessage, limit = 1 << 20): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+
+            res.on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > limit) return res.destroy(new Error("Response body is too large"));
+                chunks.push(chunk);
+            });
+            res.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+            res.on("error", reject);
+        });
+    }
+
+    /**
+     * Splits a text into lowercase words without diacritics, for comparisons
+     * @param {string} text The text
+     * @returns {string[]}
+     */
+    static tokenize(text: string) {
+        return (text ?? "")
+            .normalize("NFKD")
+            .replace(/[\u0300-\u036f]/g, "")
+            .toLowerCase()
+            .split(/[^a-z0-9\u00c0-\uffff]+/)
+            .filter((m) => !!m);
+    }
+
     static noop() {} // eslint-disable-line @typescript-eslint/no-empty-function
 }
 
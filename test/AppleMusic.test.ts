@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { AppleMusicLookupResult } from "../src/types/types";
+import { AppleMusic } from "../src/utils/AppleMusic";
+import { createPlayer, mockRequests, readFixture } from "./utils";
+
+const player = createPlayer();
+const PLAYLIST_URL = "https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb";
+const SONG_URL = "https://music.apple.com/us/album/get-lucky-feat-pharrell-williams-nile-rodgers/617154241?i=617154366";
+const lookupURL = (id: string) => `https://itunes.apple.com/lookup?id=${id}&country=us&entity=song&limit=200`;
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("AppleMusic.parseURL", () => {
+    it("parses songs, albums and playlists", () => {
+        expect(AppleMusic.parseURL("https://music.apple.com/gb/song/flowers/1663973562")).toEqual({ type: "song", id: "1663973562", country: "gb" });
+        expect(AppleMusic.parseURL("https://music.apple.com/us/album/random-access-memories/617154241")).toEqual({ type: "album", id: "617154241", country: "us" });
+        expect(AppleMusic.parseURL(PLAYLIST_URL)).toEqual({ type: "playlist", id: "pl.f4d106fed2bd41149aaacabb233eb5eb", country: "us" });
+        expect(AppleMusic.parseURL("https://geo.music.apple.com/FR/album/617154241")).toEqual({ type: "album", id: "617154241", country: "fr" });
+    });
+
+    it("parses the songs of album urls", () => {
+        expect(AppleMusic.parseURL(SONG_URL)).toEqual({ type: "song", id: "617154366", country: "us" });
+        expect(AppleMusic.parseURL("https://music.apple.com/us/album/617154241?l=en&i=617154366")).toEqual({ type: "song", id: "617154366", country: "us" });
+    });
+
+    it("rejects other urls", () => {
+        expect(AppleMusic.parseURL("https://music.apple.com/us/artist/daft-punk/5468295")).toBeNull();
+        expect(AppleMusic.parseURL("https://www.deezer.com/track/3135556")).toBeNull();
+    });
+});
+
+describe("AppleMusic.parseDuration", () => {
+    it("parses ISO 8601 durations", () => {
+        expect(AppleMusic.parseDuration("PT3M20S")).toBe(200000);
+        expect(AppleMusic.parseDuration("PT1H2M3.5S")).toBe(3723500);
+        expect(AppleMusic.parseDuration("PT45S")).toBe(45000);
+        expect(AppleMusic.parseDuration(undefined)).toBe(0);
+    });
+});
+
+describe("AppleMusic.createTrack", () => {
+    it("creates the track of a looked up song", () => {
+        const [song]: AppleMusicLookupResult[] = JSON.parse(readFixture("apple_music/lookup-song.json")).results;
+        const track = AppleMusic.createTrack(player, song);
+
+        expect(track).toMatchObject({
+            title: "Get Lucky (feat. Pharrell Williams & Nile Rodgers)",
+            author: "Daft Punk",
+            url: "https://music.apple.com/us/album/get-lucky-feat-pharrell-williams-nile-rodgers/617154241?i=617154366&uo=4",
+            thumbnail: "https://is1-ssl.mzstatic.com/image/thumb/Music115/v4/e8/43/5f/e8435ffa-b6b9-b171-40ab-4ff3959ab661/886443919266.jpg/600x600bb.jpg",
+            duration: "06:09"
+        });
+        expect(track.source).toBe("apple_music");
+    });
+});
+
+describe("AppleMusic.createAlbum", () => {
+    it("creates albums with their songs in track order", () => {
+        const playlist = AppleMusic.createAlbum(player, JSON.parse(readFixture("apple_music/lookup-album.json")).results);
+
+        expect(playlist).toMatchObject({
+            title: "Random Access Memories",
+            type: "album",
+            source: "apple_music",
+            id: "617154241",
+            url: "https://music.apple.com/us/album/random-access-memories/617154241?uo=4"
+        });
+        expect(playlist.author).toEqual({ name: "Daft Punk", url: "https://music.apple.com/us/artist/daft-punk/5468295?uo=4" });
+        expect(playlist.description).toMatch(/^℗ 2013 Daft Life Limited/);
+        expect(playlist.tracks.map((m) => m.title)).toEqual(["Give Life Back to Music", "The Game of Love", "Get Lucky (feat. Pharrell Williams & Nile Rodgers)"]);
+        expect(playlist.tracks.every((m) => m.playlist === playlist)).toBe(true);
+    });
+});
+
+describe("AppleMusic.parsePlaylistPage", () => {
+    it("reads the MusicPlaylist structured data", () => {
+        const data = AppleMusic.parsePlaylistPage(readFixture("apple_music/playlist.html"));
+
+        expect(data["@type"]).toBe("MusicPlaylist");
+        expect(data.name).toBe("Today’s Hits");
+    });
+
+    it("skips invalid structured data", () => {
+        const html = `<script type="application/ld+json">{ invalid</script>${readFixture("apple_music/playlist.html")}`;
+
+        expect(AppleMusic.parsePlaylistPage(html)?.name).toBe("Today’s Hits");
+        // the regex state is not kept between calls
+        expect(AppleMusic.parsePlaylistPage(html)?.name).toBe("Today’s Hits");
+    });
+
+    it("returns null without playlist data", () => {
+        expect(AppleMusic.parsePlaylistPage("<html><head></head></html>")).toBeNull();
+    });
+});
+
+describe("AppleMusic.createPlaylist", () => {
+    it("creates playlists from their structured data", () => {
+        const playlist = AppleMusic.createPlaylist(player, AppleMusic.parsePlaylistPage(readFixture("apple_music/playlist.html")), PLAYLIST_URL);
+
+        expect(playlist).toMatchObject({ title: "Today’s Hits", description: "The biggest songs of the moment.", type: "playlist", id: "pl.f4d106fed2bd41149aaacabb233eb5eb", url: PLAYLIST_URL });
+        expect(playlist.author).toEqual({ name: "Apple Music Pop", url: "https://music.apple.com/us/curator/apple-music-pop/976439548" });
+        expect(playlist.tracks.map((m) => [m.title, m.author, m.duration, m.url])).toEqual([
+            ["Flowers", "Miley Cyrus", "03:20", "https://music.apple.com/us/song/flowers/1663973562"],
+            ["Kill Bill", "SZA", "02:33", "https://music.apple.com/us/song/kill-bill/1657869393"]
+        ]);
+    });
+
+    it("reads recordings which are not wrapped in their audio", () => {
+        const playlist = AppleMusic.createPlaylist(
+            player,
+            {
+                "@type": "MusicPlaylist",
+                name: "Old page",
+                tracks: [{ name: "Song", duration: "PT1M", byArtist: { name: "Artist" } }]
+            },
+            PLAYLIST_URL
+        );
+
+        expect(playlist.author.name).toBe("Apple Music");
+        expect(playlist.tracks.map((m) => [m.title, m.author, m.duration, m.url])).toEqual([["Song", "Artist", "01:00", PLAYLIST_URL]]);
+    });
+});
+
+describe("AppleMusic.resolve", () => {
+    it("resolves songs", async () => {
+        mockRequests({ [lookupURL("617154366")]: "apple_music/lookup-song.json" });
+        const { playlist, tracks } = await AppleMusic.resolve(player, SONG_URL);
+
+        expect(playlist).toBeNull();
+        expect(tracks.map((m) => m.title)).toEqual(["Get Lucky (feat. Pharrell Williams & Nile Rodgers)"]);
+    });
+
+    it("resolves albums", async () => {
+        mockRequests({ [lookupURL("617154241")]: "apple_music/lookup-album.json" });
+        const { playlist, tracks } = await AppleMusic.resolve(player, "https://music.apple.com/us/album/random-access-memories/617154241");
+
+        expect(playlist.title).toBe("Random Access Memories");
+        expect(tracks).toHaveLength(3);
+    });
+
+    it("resolves playlists from their page", async () => {
+        mockRequests({ [PLAYLIST_URL]: "apple_music/playlist.html" });
+        const { playlist, tracks } = await AppleMusic.resolve(player, PLAYLIST_URL);
+
+        expect(playlist.title).toBe("Today’s Hits");
+        expect(tracks).toHaveLength(2);
+    });
+
+    it("resolves nothing for unknown ids", async () => {
+        mockRequests({ [lookupURL("1")]: "apple_music/lookup-empty.json" });
+
+        expect(await AppleMusic.resolve(player, "https://music.apple.com/us/album/1")).toEqual({ playlist: null, tracks: [] });
+        expect(await AppleMusic.resolve(player, "https://music.apple.com/us/song/1")).toEqual({ playlist: null, tracks: [] });
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "@jest/globals";
+import { AudioFilters } from "../src/utils/AudioFilters";
+
+describe("AudioFilters.rateOf", () => {
+    it("is 1 without rate changing filters", () => {
+        expect(AudioFilters.rateOf("")).toBe(1);
+        expect(AudioFilters.rateOf(AudioFilters.bassboost)).toBe(1);
+    });
+
+    it("reads the sample rate changes", () => {
+        expect(AudioFilters.rateOf(AudioFilters.nightcore)).toBeCloseTo(1.25);
+        expect(AudioFilters.rateOf(AudioFilters.vaporwave)).toBeCloseTo(0.8);
+        expect(AudioFilters.rateOf("asetrate=96000")).toBe(2);
+    });
+
+    it("multiplies chained tempo changes", () => {
+        expect(AudioFilters.rateOf(AudioFilters.speed(3))).toBeCloseTo(3);
+        expect(AudioFilters.rateOf(AudioFilters.speed(0.25))).toBeCloseTo(0.25);
+        expect(AudioFilters.rateOf(`${AudioFilters.nightcore},${AudioFilters.speed(2)}`)).toBeCloseTo(2.5);
+    });
+
+    it("keeps the rate of pitch shifts", () => {
+        expect(AudioFilters.rateOf(AudioFilters.pitch(12))).toBeCloseTo(1);
+        expect(AudioFilters.rateOf(AudioFilters.pitch(-7))).toBeCloseTo(1);
+    });
+
+    it("falls back to 1 on invalid rates", () => {
+        expect(AudioFilters.rateOf("atempo=0")).toBe(1);
+    });
+});
+
+describe("AudioFilters.speed", () => {
+    it("splits the rate into supported atempo values", () => {
+        expect(AudioFilters.speed(1)).toBe("");
+        expect(AudioFilters.speed(1.5)).toBe("atempo=1.5");
+        expect(AudioFilters.speed(5)).toBe("atempo=2,atempo=2,atempo=1.25");
+        expect(AudioFilters.speed(0.2)).toBe("atempo=0.5,atempo=0.5,atempo=0.8");
+    });
+});
+
+describe("AudioFilters.pcmOf", () => {
+    it("reads the default bass, treble and mono definitions", () => {
+        expect(AudioFilters.pcmOf(AudioFilters.bassboost_low)).toEqual({ bass: 15 });
+        expect(AudioFilters.pcmOf(AudioFilters.bassboost_high)).toEqual({ bass: 30 });
+        expect(AudioFilters.pcmOf(AudioFilters.treble)).toEqual({ treble: 5 });
+        expect(AudioFilters.pcmOf(AudioFilters.mono)).toEqual({ mono: true });
+    });
+
+    it("follows the redefined gains", () => {
+        expect(AudioFilters.pcmOf("bass=g=8:f=110:w=0.3")).toEqual({ bass: 8 });
+        expect(AudioFilters.pcmOf("treble=g=-2.5")).toEqual({ treble: -2.5 });
+    });
+
+    it("leaves the other definitions to FFmpeg", () => {
+        expect(AudioFilters.pcmOf("bass=g=8:f=60:w=0.5")).toBeNull();
+        expect(AudioFilters.pcmOf("pan=mono|c0=c0")).toBeNull();
+        expect(AudioFilters.pcmOf(AudioFilters.nightcore)).toBeNull();
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "@jest/globals";
+import { PassThrough } from "stream";
+import { CrossfadeStream } from "../src/VoiceInterface/CrossfadeStream";
+
+// 48kHz stereo frames of a constant sample
+const pcm = (frames: number, sample: number) => {
+    const buffer = Buffer.alloc(frames * 4);
+    for (let offset = 0; offset < buffer.length; offset += 2) buffer.writeInt16LE(sample, offset);
+    return buffer;
+};
+
+const samples = (buffer: Buffer) => Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+
+const collect = (stream: CrossfadeStream) =>
+    new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+        stream.on("error", reject);
+    });
+
+describe("CrossfadeStream", () => {
+    it("passes the audio through until a fade starts", async () => {
+        const stream = new CrossfadeStream();
+        const output = collect(stream);
+
+        stream.end(pcm(10, 1000));
+
+        expect(samples(await output)).toEqual(new Array(20).fill(1000));
+    });
+
+    it("keeps incomplete frames for the next chunk", async () => {
+        const stream = new CrossfadeStream();
+        const output = collect(stream);
+        const input = pcm(3, 1000);
+
+        stream.write(input.subarray(0, 5));
+        stream.end(input.subarray(5));
+
+        expect(samples(await output)).toEqual(new Array(6).fill(1000));
+    });
+
+    it("fades into the incoming stream and ends once the fade completes", async () => {
+        const source = new PassThrough();
+        const stream = new CrossfadeStream();
+        source.pipe(stream);
+        const output = collect(stream);
+
+        // 1ms fade, 48 frames
+        const incoming = new PassThrough();
+        incoming.write(pcm(100, 10000));
+        stream.fadeInto(incoming, 1);
+        source.write(pcm(48, 20000));
+
+        const result = samples(await output);
+        expect(result).toHaveLength(96);
+        // equal power curve: the outgoing stream starts at full volume, the incoming one ends at full volume
+        expect(result[0]).toBeGreaterThan(19990);
+        expect(result[result.length - 1]).toBe(10000);
+        expect(stream.incomingTime).toBe(1);
+        // the rest of the incoming stream is left for the next audio resource
+        expect(incoming.readableLength).toBe(52 * 4);
+        expect(source.destroyed).toBe(true);
+    });
+
+    it("does not advance the fade while the incoming stream has no data", async () => {
+        const stream = new CrossfadeStream();
+        const output = collect(stream);
+
+        stream.fadeInto(new PassThrough(), 1);
+        stream.end(pcm(10, 1000));
+
+        expect(samples(await output)).toEqual(new Array(20).fill(1000));
+        expect(stream.incomingTime).toBe(0);
+    });
+});
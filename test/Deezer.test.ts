@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { DeezerCollectionData, DeezerTrackData } from "../src/types/types";
+import { Deezer } from "../src/utils/Deezer";
+import { createPlayer, mockRequests, readFixture } from "./utils";
+
+const player = createPlayer();
+const PLAYLIST_TRACKS = "https://api.deezer.com/playlist/908622995/tracks";
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("Deezer.parseURL", () => {
+    it("parses tracks, albums and playlists", () => {
+        expect(Deezer.parseURL("https://www.deezer.com/track/3135556")).toEqual({ type: "track", id: "3135556" });
+        expect(Deezer.parseURL("https://www.deezer.com/fr/album/302127")).toEqual({ type: "album", id: "302127" });
+        expect(Deezer.parseURL("https://deezer.com/en-gb/playlist/908622995?utm_source=deezer")).toEqual({ type: "playlist", id: "908622995" });
+        expect(Deezer.parseURL("http://www.deezer.com/TRACK/1")).toEqual({ type: "track", id: "1" });
+    });
+
+    it("rejects other urls", () => {
+        expect(Deezer.parseURL("https://www.deezer.com/artist/27")).toBeNull();
+        expect(Deezer.parseURL("https://deezer.page.link/abc")).toBeNull();
+        expect(Deezer.parseURL("https://open.spotify.com/track/0VjIjW4GlUZAMYd2vXMi3b")).toBeNull();
+    });
+});
+
+describe("Deezer.createTrack", () => {
+    it("creates the track of an API track", () => {
+        const data: DeezerTrackData = JSON.parse(readFixture("deezer/track.json"));
+        const track = Deezer.createTrack(player, data);
+
+        expect(track).toMatchObject({
+            title: "Harder, Better, Faster, Stronger",
+            author: "Daft Punk",
+            url: "https://www.deezer.com/track/3135556",
+            thumbnail: "https://e-cdns-images.dzcdn.net/images/cover/2e018122cb56986277102d2041a592c8/1000x1000-000000-80-0-0.jpg",
+            duration: "03:44"
+        });
+        expect(track.source).toBe("deezer");
+        expect(track.raw).toMatchObject({ id: 3135556, isrc: "GBDUW0000059" });
+    });
+
+    it("falls back on missing data", () => {
+        const track = Deezer.createTrack(player, { id: 1, title: "Untitled" });
+
+        expect(track.author).toBe("Unknown Artist");
+        expect(track.url).toBe("https://www.deezer.com/track/1");
+        expect(track.duration).toBe("0:00");
+    });
+});
+
+describe("Deezer.createPlaylist", () => {
+    it("creates albums with every track", () => {
+        const data: DeezerCollectionData = JSON.parse(readFixture("deezer/album.json"));
+        const playlist = Deezer.createPlaylist(player, data);
+
+        expect(playlist).toMatchObject({ title: "Discovery", type: "album", source: "deezer", id: "302127", url: "https://www.deezer.com/album/302127", totalTracks: 14 });
+        expect(playlist.author).toEqual({ name: "Daft Punk", url: "https://www.deezer.com/artist/27" });
+        expect(playlist.complete).toBe(true);
+        expect(playlist.tracks).toHaveLength(14);
+        // album tracks do not include their album
+        expect(playlist.tracks[3]).toMatchObject({ title: "Harder, Better, Faster, Stronger", thumbnail: data.cover_xl, playlist });
+        expect(playlist.tracks[3].raw).toMatchObject({ album: { title: "Discovery" } });
+    });
+
+    it("creates playlists with their first page", () => {
+        const playlist = Deezer.createPlaylist(player, JSON.parse(readFixture("deezer/playlist.json")));
+
+        expect(playlist).toMatchObject({ title: "Throwback Mix", description: "The hits you grew up with", type: "playlist", totalTracks: 5 });
+        expect(playlist.author).toEqual({ name: "Deezer Editor", url: "https://www.deezer.com/profile/2529" });
+        expect(playlist.tracks.map((m) => m.title)).toEqual(["Lose Yourself", "Without Me"]);
+        expect(playlist.tracks[1].thumbnail).toBe("https://e-cdns-images.dzcdn.net/images/cover/ec3c8ed67427064c70f67e5815b74cef/1000x1000-000000-80-0-0.jpg");
+        expect(playlist.complete).toBe(false);
+    });
+
+    it("loads the remaining pages by following the next urls", async () => {
+        const request = mockRequests({
+            [`${PLAYLIST_TRACKS}?index=2&limit=100`]: "deezer/playlist-tracks-2.json",
+            [`${PLAYLIST_TRACKS}?limit=2&index=4`]: "deezer/playlist-tracks-4.json"
+        });
+        const playlist = Deezer.createPlaylist(player, JSON.parse(readFixture("deezer/playlist.json")));
+
+        await playlist.load();
+
+        expect(request.mock.calls.map(([url]) => url)).toEqual([`${PLAYLIST_TRACKS}?index=2&limit=100`, `${PLAYLIST_TRACKS}?limit=2&index=4`]);
+        expect(playlist.complete).toBe(true);
+        expect(playlist.tracks.map((m) => m.title)).toEqual(["Lose Yourself", "Without Me", "Harder, Better, Faster, Stronger", "Get Lucky", "Smells Like Teen Spirit"]);
+        expect(playlist.tracks.every((m) => m.playlist === playlist)).toBe(true);
+    });
+});
+
+describe("Deezer.resolve", () => {
+    it("resolves tracks", async () => {
+        mockRequests({ "https://api.deezer.com/track/3135556": "deezer/track.json" });
+        const { playlist, tracks } = await Deezer.resolve(player, "https://www.deezer.com/fr/track/3135556");
+
+        expect(playlist).toBeNull();
+        expect(tracks.map((m) => m.title)).toEqual(["Harder, Better, Faster, Stronger"]);
+    });
+
+    it("resolves albums", async () => {
+        mockRequests({ "https://api.deezer.com/album/302127": "deezer/album.json" });
+        const { playlist, tracks } = await Deezer.resolve(player, "https://www.deezer.com/album/302127");
+
+        expect(playlist.title).toBe("Discovery");
+        expect(tracks).toBe(playlist.tracks);
+    });
+
+    it("rejects the errors sent with a 200 status", async () => {
+        mockRequests({ "https://api.deezer.com/track/1": "deezer/error.json" });
+
+        await expect(Deezer.resolve(player, "https://www.deezer.com/track/1")).rejects.toThrow("Deezer API error: no data");
+    });
+
+    it("resolves nothing for other urls", async () => {
+        const request = mockRequests({});
+
+        expect(await Deezer.resolve(player, "https://www.deezer.com/artist/27")).toEqual({ playlist: null, tracks: [] });
+        expect(request).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "@jest/globals";
+import { Equalizer } from "../src/utils/Equalizer";
+
+describe("Equalizer.resolve", () => {
+    it("resolves an array of gains", () => {
+        expect(Equalizer.resolve([1, 2, 3])).toEqual([1, 2, 3, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it("applies bands on the base gains", () => {
+        const base = Equalizer.getPreset("bass");
+        const gains = Equalizer.resolve(
+            [
+                { band: 0, gain: -2 },
+                { band: 14, gain: 3 }
+            ],
+            base
+        );
+
+        expect(gains).toEqual([-2, ...base.slice(1, 14), 3]);
+        // the base is not mutated
+        expect(base[0]).toBe(8);
+    });
+
+    it("clamps the gains", () => {
+        const gains = Equalizer.resolve([
+            { band: 1, gain: 50 },
+            { band: 2, gain: -50 }
+        ]);
+
+        expect(gains[1]).toBe(Equalizer.MAX_GAIN);
+        expect(gains[2]).toBe(-Equalizer.MAX_GAIN);
+    });
+
+    it("ignores invalid bands and gains", () => {
+        const gains = Equalizer.resolve([
+            { band: -1, gain: 5 },
+            { band: 15, gain: 5 },
+            { band: 1.5, gain: 5 },
+            { band: 3, gain: NaN },
+            { band: 4, gain: "5" as unknown as number }
+        ]);
+
+        expect(gains).toEqual(new Array(15).fill(0));
+    });
+
+    it("keeps one gain per band", () => {
+        expect(Equalizer.resolve(new Array(20).fill(1))).toHaveLength(Equalizer.frequencies.length);
+    });
+});
+
+describe("Equalizer presets", () => {
+    it("returns copies of the presets", () => {
+        const flat = Equalizer.getPreset("flat");
+        flat[0] = 10;
+
+        expect(Equalizer.getPreset("flat")[0]).toBe(0);
+        expect(Equalizer.getPreset("unknown")).toBeNull();
+    });
+
+    it("defines clamped custom presets", () => {
+        Equalizer.definePreset("custom", [30, -1]);
+
+        expect(Equalizer.presets).toContain("custom");
+        expect(Equalizer.getPreset("custom").slice(0, 3)).toEqual([Equalizer.MAX_GAIN, -1, 0]);
+    });
+});
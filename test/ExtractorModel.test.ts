@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { ExtractorModel } from "../src/Structures/ExtractorModel";
+import { QueryType } from "../src/types/types";
+import { createPlayer, mockRequests } from "./utils";
+
+// an extractor validating every query, resolving a track titled after its name
+const createExtractor = (name: string, data: Record<string, unknown> = {}) => ({
+    validate: jest.fn(() => true),
+    getInfo: jest.fn(async (query: string) => ({ playlist: null as unknown, info: [{ title: name, duration: 1000, thumbnail: "", views: 0, author: "", description: "", url: query }] })),
+    ...data
+});
+
+describe("ExtractorModel.supports", () => {
+    it("supports every query type without query types", () => {
+        const model = new ExtractorModel("any", createExtractor("any"));
+
+        expect(model.queryTypes).toBeNull();
+        expect(model.supports(QueryType.YOUTUBE_SEARCH)).toBe(true);
+        expect(new ExtractorModel("empty", createExtractor("empty", { queryTypes: [] })).supports(QueryType.RADIO)).toBe(true);
+    });
+
+    it("only supports its query types", () => {
+        const model = new ExtractorModel("radio", createExtractor("radio", { queryTypes: [QueryType.RADIO] }));
+
+        expect(model.supports(QueryType.RADIO)).toBe(true);
+        expect(model.supports(QueryType.YOUTUBE_SEARCH)).toBe(false);
+    });
+
+    it("prefers the options over the extractor data", () => {
+        const model = new ExtractorModel("ext", createExtractor("ext", { priority: 1, queryTypes: [QueryType.RADIO] }), { priority: 5, queryTypes: [QueryType.ARBITRARY] });
+
+        expect(model.priority).toBe(5);
+        expect(model.supports(QueryType.ARBITRARY)).toBe(true);
+        expect(model.supports(QueryType.RADIO)).toBe(false);
+        expect(new ExtractorModel("default", createExtractor("default")).priority).toBe(0);
+    });
+});
+
+describe("Player.use", () => {
+    it("sorts the extractors by priority, then by registration order", () => {
+        const player = createPlayer();
+        player.use("low", createExtractor("low"), false, { priority: -1 });
+        player.use("first", createExtractor("first"));
+        player.use("high", createExtractor("high", { priority: 10 }));
+        player.use("second", createExtractor("second"));
+
+        expect([...player.extractors.keys()]).toEqual(["high", "first", "second", "low"]);
+    });
+
+    it("keeps the registered extractor unless forced", () => {
+        const player = createPlayer();
+        const first = player.use("ext", createExtractor("first"));
+
+        expect(player.use("ext", createExtractor("second"))).toBe(first);
+        expect(player.use("ext", createExtractor("second"), true)).not.toBe(first);
+    });
+
+    it("calls the lifecycle hooks", async () => {
+        const player = createPlayer();
+        const activate = jest.fn(async () => undefined);
+        const deactivate = jest.fn(async () => undefined);
+        const model = player.use("ext", createExtractor("ext", { activate, deactivate }));
+        await model.search("query");
+
+        expect(activate).toHaveBeenCalledWith(player);
+
+        player.unuse("ext");
+        await new Promise(setImmediate);
+
+        expect(deactivate).toHaveBeenCalledWith(player);
+    });
+
+    it("removes the extractors which cannot be set up", async () => {
+        const player = createPlayer();
+        const error = new Error("no token");
+        const onError = jest.fn();
+        player.on("extractorError", onError);
+
+        const model = player.use("ext", createExtractor("ext", { activate: async () => Promise.reject(error) }));
+        await new Promise(setImmediate);
+
+        expect(player.extractors.has("ext")).toBe(false);
+        expect(onError).toHaveBeenCalledWith(model, error);
+    });
+
+    it("rejects invalid extractors", () => {
+        expect(() => createPlayer().use("ext", { validate: () => true })).toThrow("Invalid extractor data!");
+    });
+});
+
+describe("extractor routing", () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    const search = (player: ReturnType<typeof createPlayer>, query: string, searchEngine: QueryType) =>
+        player.search(query, { requestedBy: null, searchEngine }).then((m) => m.tracks.map((t) => t.title));
+
+    it("tries the extractors by priority", async () => {
+        const player = createPlayer();
+        player.use("low", createExtractor("low"));
+        player.use("high", createExtractor("high"), false, { priority: 1 });
+
+        expect(await search(player, "https://example.com", QueryType.SOUNDCLOUD_TRACK)).toEqual(["high"]);
+    });
+
+    it("skips the extractors which do not support the query type or validate the query", async () => {
+        const player = createPlayer();
+        player.use("youtube", createExtractor("youtube", { priority: 2, queryTypes: [QueryType.YOUTUBE_VIDEO] }));
+        const invalid = player.use("invalid", createExtractor("invalid", { priority: 1, validate: () => false }));
+        player.use("fallback", createExtractor("fallback"));
+
+        expect(await search(player, "https://example.com", QueryType.SOUNDCLOUD_TRACK)).toEqual(["fallback"]);
+        expect(invalid.supports(QueryType.SOUNDCLOUD_TRACK)).toBe(true);
+    });
+
+    it("falls through to the next extractor on errors and empty results", async () => {
+        const player = createPlayer();
+        const onError = jest.fn();
+        player.on("extractorError", onError);
+        player.use("failing", createExtractor("failing", { priority: 2, getInfo: async () => Promise.reject(new Error("down")) }));
+        player.use("empty", createExtractor("empty", { priority: 1, getInfo: async () => ({ playlist: null as unknown, info: [] as unknown[] }) }));
+        player.use("working", createExtractor("working"));
+
+        expect(await search(player, "https://example.com", QueryType.SOUNDCLOUD_TRACK)).toEqual(["working"]);
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("only lets the extractors registered for radios handle them", async () => {
+        const player = createPlayer();
+        player.use("attachment", createExtractor("attachment"), false, { priority: 1 });
+        player.use("radio", createExtractor("radio", { queryTypes: [QueryType.RADIO] }));
+
+        expect(await search(player, "https://radio.example.com/stream", QueryType.RADIO)).toEqual(["radio"]);
+    });
+
+    it("only probes the urls no extractor handled for an internet radio", async () => {
+        const request = mockRequests({});
+        const player = createPlayer();
+        const validate = jest.fn((query: string) => query.endsWith(".mp3"));
+        player.use("attachment", createExtractor("attachment", { validate }));
+
+        expect(await search(player, "https://example.com/song.mp3", QueryType.ARBITRARY)).toEqual(["attachment"]);
+        expect(request).not.toHaveBeenCalled();
+
+        expect(await search(player, "https://radio.example.com/live", QueryType.ARBITRARY)).toEqual([]);
+        expect(validate).toHaveBeenCalledWith("https://radio.example.com/live");
+        expect(request).toHaveBeenCalledWith("https://radio.example.com/live", expect.anything());
+    });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { JSONFileStorage } from "../src/Storage/JSONFileStorage";
+import { QueueRepeatMode, QueueSnapshot } from "../src/types/types";
+
+const snapshot: QueueSnapshot = { guild: "1", options: {}, streamTime: 0, tracks: [], previousTracks: [], repeatMode: QueueRepeatMode.OFF, filters: [], volume: 100 };
+
+describe("JSONFileStorage", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "discord-player-"));
+        file = path.join(dir, "queues.json");
+    });
+    afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+    it("creates the file on the first write", async () => {
+        const storage = new JSONFileStorage(file);
+
+        expect(await storage.list()).toEqual([]);
+        await storage.set("1", snapshot);
+
+        expect(JSON.parse(await fs.readFile(file, "utf-8"))).toEqual({ 1: snapshot });
+        expect(await new JSONFileStorage(file).get("1")).toEqual(snapshot);
+    });
+
+    it("deletes snapshots", async () => {
+        const storage = new JSONFileStorage(file);
+        await storage.set("1", snapshot);
+        await storage.delete("1");
+
+        expect(await new JSONFileStorage(file).list()).toEqual([]);
+    });
+
+    it("reads an invalid file again once it was fixed", async () => {
+        await fs.writeFile(file, '{"1": {');
+        const storage = new JSONFileStorage(file);
+
+        await expect(storage.get("1")).rejects.toThrow(SyntaxError);
+        await expect(storage.list()).rejects.toThrow(SyntaxError);
+
+        await fs.writeFile(file, JSON.stringify({ 1: snapshot }));
+        expect(await storage.get("1")).toEqual(snapshot);
+        await storage.set("2", { ...snapshot, guild: "2" });
+
+        expect(await new JSONFileStorage(file).list()).toEqual(["1", "2"]);
+    });
+});
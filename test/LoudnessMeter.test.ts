@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals";
+import { LoudnessMeter } from "../src/utils/LoudnessMeter";
+
+// 48kHz stereo 1kHz sine
+const sine = (amplitude: number, seconds: number) => {
+    const buffer = Buffer.alloc(48000 * seconds * 4);
+    for (let i = 0; i < 48000 * seconds; i++) {
+        const sample = Math.round(Math.sin((2 * Math.PI * 1000 * i) / 48000) * amplitude * 32767);
+        buffer.writeInt16LE(sample, i * 4);
+        buffer.writeInt16LE(sample, i * 4 + 2);
+    }
+    return buffer;
+};
+
+describe("LoudnessMeter", () => {
+    it("measures the integrated loudness", () => {
+        const meter = new LoudnessMeter();
+        meter.process(sine(0.1, 5));
+
+        expect(meter.duration).toBe(5000);
+        expect(meter.integrated).toBeCloseTo(-20, 0);
+    });
+
+    it("ignores silence", () => {
+        const meter = new LoudnessMeter();
+        meter.process(Buffer.alloc(48000 * 4));
+
+        expect(meter.integrated).toBe(-Infinity);
+
+        meter.process(sine(0.1, 5));
+        meter.process(Buffer.alloc(48000 * 20));
+
+        // only the blocks overlapping the sine and the silence are quieter
+        expect(meter.integrated).toBeGreaterThan(-21);
+        expect(meter.integrated).toBeLessThan(-20);
+    });
+
+    it("gates the parts far quieter than the rest", () => {
+        const meter = new LoudnessMeter();
+        meter.process(sine(0.1, 5));
+        meter.process(sine(0.001, 20));
+
+        expect(meter.integrated).toBeCloseTo(-20, 0);
+    });
+
+    it("includes the quieter parts above the relative gate", () => {
+        const meter = new LoudnessMeter();
+        meter.process(sine(0.1, 5));
+        meter.process(sine(0.05, 5));
+
+        expect(meter.integrated).toBeGreaterThan(-23);
+        expect(meter.integrated).toBeLessThan(-21);
+    });
+});
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { MemoryCache } from "../src/Storage/MemoryCache";
+
+describe("MemoryCache", () => {
+    afterEach(() => jest.useRealTimers());
+
+    it("expires the entries after their ttl", () => {
+        jest.useFakeTimers("modern");
+        const cache = new MemoryCache();
+        cache.set("short", 1, 1000);
+        cache.set("long", 2, 5000);
+
+        jest.advanceTimersByTime(999);
+        expect(cache.get("short")).toBe(1);
+
+        jest.advanceTimersByTime(1);
+        expect(cache.get("short")).toBeUndefined();
+        expect(cache.get("long")).toBe(2);
+        expect(cache.size()).toBe(1);
+    });
+
+    it("evicts the least recently used entries", () => {
+        const cache = new MemoryCache(2);
+        cache.set("a", 1, 1000);
+        cache.set("b", 2, 1000);
+        cache.get("a");
+        cache.set("c", 3, 1000);
+
+        expect(cache.get("b")).toBeUndefined();
+        expect([...cache.cache.keys()]).toEqual(["a", "c"]);
+    });
+
+    it("replaces, deletes and clears entries", () => {
+        const cache = new MemoryCache();
+        cache.set("a", 1, 1000);
+        cache.set("a", 2, 1000);
+        cache.set("b", 3, 1000);
+
+        expect(cache.get("a")).toBe(2);
+        cache.delete("a");
+        expect(cache.get("a")).toBeUndefined();
+        cache.clear();
+        expect(cache.size()).toBe(0);
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "@jest/globals";
+import { PCMFilterer } from "../src/VoiceInterface/PCMFilterer";
+import { PCMFilterOptions } from "../src/types/types";
+
+// 48kHz stereo frames
+const pcm = (frames: [number, number][]) => {
+    const buffer = Buffer.alloc(frames.length * 4);
+    frames.forEach(([left, right], i) => {
+        buffer.writeInt16LE(left, i * 4);
+        buffer.writeInt16LE(right, i * 4 + 2);
+    });
+    return buffer;
+};
+
+const frames = (buffer: Buffer) => Array.from({ length: buffer.length / 4 }, (_, i) => [buffer.readInt16LE(i * 4), buffer.readInt16LE(i * 4 + 2)]);
+
+const filter = (options: PCMFilterOptions, chunks: Buffer[]) =>
+    new Promise<Buffer>((resolve, reject) => {
+        const filterer = new PCMFilterer(options);
+        const output: Buffer[] = [];
+        filterer.on("data", (chunk: Buffer) => output.push(chunk));
+        filterer.on("end", () => resolve(Buffer.concat(output)));
+        filterer.on("error", reject);
+        for (const chunk of chunks) filterer.write(chunk);
+        filterer.end();
+    });
+
+describe("PCMFilterer", () => {
+    it("is inactive without filters", async () => {
+        const input = pcm([
+            [100, -100],
+            [200, -200]
+        ]);
+
+        expect(new PCMFilterer().active).toBe(false);
+        expect(new PCMFilterer({ equalizer: new Array(15).fill(0), balance: 0, gain: 0 }).active).toBe(false);
+        expect(await filter({}, [input])).toEqual(input);
+    });
+
+    it("keeps incomplete frames for the next chunk", async () => {
+        const input = pcm([
+            [100, -100],
+            [200, -200]
+        ]);
+
+        expect(await filter({}, [input.subarray(0, 3), input.subarray(3)])).toEqual(input);
+    });
+
+    it("downmixes to mono", async () => {
+        expect(frames(await filter({ mono: true }, [pcm([[1000, 3000]])]))).toEqual([[2000, 2000]]);
+    });
+
+    it("applies the balance", async () => {
+        expect(frames(await filter({ balance: -1 }, [pcm([[1000, 1000]])]))).toEqual([[1000, 0]]);
+        expect(frames(await filter({ balance: 0.5 }, [pcm([[1000, 1000]])]))).toEqual([[500, 1000]]);
+    });
+
+    it("applies the gain and clamps the samples", async () => {
+        expect(frames(await filter({ gain: 20 }, [pcm([[100, 10000]])]))).toEqual([[1000, 32767]]);
+    });
+
+    it("ramps gain changes over the next chunk", async () => {
+        const filterer = new PCMFilterer();
+        const output: Buffer[] = [];
+        filterer.on("data", (chunk: Buffer) => output.push(chunk));
+
+        filterer.write(pcm(new Array(4).fill([1000, 1000])));
+        filterer.configure({ gain: -Infinity });
+        filterer.write(pcm(new Array(4).fill([1000, 1000])));
+        filterer.write(pcm([[1000, 1000]]));
+
+        expect(frames(output[1]).map(([left]) => left)).toEqual([1000, 750, 500, 250]);
+        expect(frames(output[2])).toEqual([[0, 0]]);
+    });
+
+    it("keeps the state of unchanged filters", () => {
+        const filterer = new PCMFilterer({ bass: 6, treble: 3 });
+        const [bass] = (filterer as unknown as { _filters: unknown[] })._filters;
+
+        filterer.configure({ bass: 6, treble: -3 });
+        const filters = (filterer as unknown as { _filters: unknown[] })._filters;
+
+        expect(filters).toHaveLength(2);
+        expect(filters[0]).toBe(bass);
+        expect(filterer.active).toBe(true);
+    });
+
+    it("boosts the equalizer bands", async () => {
+        // a full scale 1kHz sine, band 8 is centered on 1kHz
+        const sine = pcm(Array.from({ length: 4800 }, (_, i) => new Array(2).fill(Math.round(Math.sin((2 * Math.PI * 1000 * i) / 48000) * 1000)) as [number, number]));
+        const equalizer = new Array(15).fill(0);
+        equalizer[8] = 6;
+
+        const output = frames(await filter({ equalizer }, [sine]));
+        const peak = Math.max(...output.slice(2400).map(([left]) => Math.abs(left)));
+
+        // +6dB doubles the amplitude
+        expect(peak).toBeGreaterThan(1900);
+        expect(peak).toBeLessThan(2100);
+    });
+});
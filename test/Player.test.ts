@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { Guild } from "discord.js";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { MemoryStorage } from "../src/Storage/MemoryStorage";
+import { Queue } from "../src/Structures/Queue";
+import { QueueRepeatMode, QueueSnapshot } from "../src/types/types";
+import { LocalFiles } from "../src/utils/LocalFiles";
+import { createPlayer } from "./utils";
+
+const snapshot: QueueSnapshot = { guild: "1", options: {}, streamTime: 0, tracks: [], previousTracks: [], repeatMode: QueueRepeatMode.OFF, filters: [], volume: 100 };
+
+describe("Player.restore", () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it("keeps the snapshots of the queues failing to restore", async () => {
+        const storage = new MemoryStorage();
+        storage.cache.set("1", snapshot);
+        const player = createPlayer({ storage, storageWriteDelay: 0 });
+        const onError = jest.fn();
+        player.on("error", onError);
+        jest.spyOn(player.client.guilds, "resolve").mockReturnValue({ id: "1" } as Guild);
+        jest.spyOn(Queue.prototype, "restore").mockRejectedValue(new Error("voice connection failed"));
+
+        expect(await player.restore()).toEqual([]);
+        expect(onError).toHaveBeenCalledWith(expect.any(Queue), new Error("voice connection failed"));
+        expect(player.queues.has("1")).toBe(false);
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(storage.cache.get("1")).toBe(snapshot);
+    });
+});
+
+describe("Player library updates", () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it("updates the queued tracks of the re-indexed files and removes the deleted ones", async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), "discord-player-"));
+        const player = createPlayer({ localRoot: root, library: { watch: false } });
+        jest.spyOn(player.client.guilds, "resolve").mockReturnValue({ id: "1" } as Guild);
+        const onUpdate = jest.fn();
+        player.on("trackMetadataUpdate", onUpdate);
+
+        const info = (name: string) => ({ path: path.join(root, `${name}.mp3`), title: name, artist: "Artist", duration: 60000 });
+        const queue = player.createQueue("1");
+        const [kept, changed, removed] = ["kept", "changed", "removed"].map((m) => LocalFiles.createTrack(player, info(m)));
+        queue.addTracks([kept, changed, removed]);
+
+        player.library.emit("update", [{ ...info("changed"), title: "Retagged", duration: 90000, mtime: 1, size: 1 }], [info("removed").path]);
+
+        expect(queue.tracks).toEqual([kept, changed]);
+        expect(changed.title).toBe("Retagged");
+        expect(changed.duration).toBe("01:30");
+        expect(onUpdate).toHaveBeenCalledWith(queue, changed);
+        expect(kept.title).toBe("kept");
+
+        queue.destroy();
+        await player.destroy();
+        await fs.rm(root, { recursive: true, force: true });
+    });
+});
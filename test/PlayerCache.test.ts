@@ -0,0 +1,132 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { Playlist } from "../src/Structures/Playlist";
+import { PlayerCache } from "../src/Structures/PlayerCache";
+import { CacheBackend, QueryType, SearchResult } from "../src/types/types";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+
+// a backend keeping the entries with their ttl, as JSON like a remote store would
+const createBackend = () => {
+    const entries = new Map<string, { value: string; ttl: number }>();
+    const backend: CacheBackend = {
+        get: (key) => (entries.has(key) ? JSON.parse(entries.get(key).value) : undefined),
+        set: (key, value, ttl) => void entries.set(key, { value: JSON.stringify(value), ttl }),
+        delete: (key) => void entries.delete(key),
+        clear: () => entries.clear(),
+        size: () => entries.size
+    };
+
+    return { entries, backend };
+};
+
+const result = (title = "Title"): SearchResult => ({ playlist: null, tracks: [createTrack(player, { title })] });
+
+describe("PlayerCache.search", () => {
+    it("caches the results with the configured ttl", async () => {
+        const { entries, backend } = createBackend();
+        const cache = new PlayerCache(player, { backend, ttl: 1000 });
+        const search = jest.fn(async () => result());
+
+        await cache.search("never gonna", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+        const cached = await cache.search("never gonna", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(cached.tracks.map((m) => m.title)).toEqual(["Title"]);
+        expect([...entries.values()].map((m) => m.ttl)).toEqual([1000]);
+        expect(await cache.stats()).toEqual({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it("case-folds the search queries, not the urls", async () => {
+        const cache = new PlayerCache(player, { backend: createBackend().backend });
+        const search = jest.fn(async () => result());
+
+        await cache.search("Never  Gonna ", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+        await cache.search("never gonna", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+        expect(search).toHaveBeenCalledTimes(1);
+
+        await cache.search("https://youtu.be/dQw4w9WgXcQ", QueryType.YOUTUBE_VIDEO, { requestedBy: null }, search);
+        await cache.search("https://youtu.be/DQW4W9WGXCQ", QueryType.YOUTUBE_VIDEO, { requestedBy: null }, search);
+        expect(search).toHaveBeenCalledTimes(3);
+    });
+
+    it("keys the results by their search options", async () => {
+        const cache = new PlayerCache(player, { backend: createBackend().backend });
+        const search = jest.fn(async () => result());
+
+        await cache.search("query", QueryType.YOUTUBE_SEARCH, { requestedBy: null, limit: 5 }, search);
+        await cache.search("query", QueryType.YOUTUBE_SEARCH, { requestedBy: null, limit: 10 }, search);
+        await cache.search("query", QueryType.SOUNDCLOUD_SEARCH, { requestedBy: null, limit: 10 }, search);
+
+        expect(search).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not cache empty results, incomplete playlists, filtered searches or local files", async () => {
+        const { entries, backend } = createBackend();
+        const cache = new PlayerCache(player, { backend });
+        const playlist = new Playlist(player, {
+            title: "",
+            description: "",
+            thumbnail: "",
+            type: "playlist",
+            source: "youtube",
+            author: { name: "", url: "" },
+            tracks: [createTrack(player)],
+            id: "1",
+            url: ""
+        });
+        playlist.setLoader(async () => [], 10);
+
+        await cache.search("empty", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, async () => ({ playlist: null, tracks: [] }));
+        await cache.search("lazy", QueryType.YOUTUBE_PLAYLIST, { requestedBy: null }, async () => ({ playlist, tracks: playlist.tracks }));
+        await cache.search("filtered", QueryType.YOUTUBE_SEARCH, { requestedBy: null, filter: () => true }, async () => result());
+        await cache.search("/music/song.mp3", QueryType.LOCAL, { requestedBy: null }, async () => result());
+
+        expect(entries.size).toBe(0);
+    });
+
+    it("rebuilds the playlists of the results", async () => {
+        const cache = new PlayerCache(player, { backend: createBackend().backend });
+        const playlist = new Playlist(player, { title: "Mix", description: "", thumbnail: "", type: "playlist", source: "youtube", author: { name: "", url: "" }, tracks: [], id: "1", url: "" });
+        playlist.tracks = [createTrack(player, { title: "A", playlist }), createTrack(player, { title: "B", playlist })];
+
+        await cache.search("mix", QueryType.YOUTUBE_PLAYLIST, { requestedBy: null }, async () => ({ playlist, tracks: playlist.tracks }));
+        const cached = await cache.search("mix", QueryType.YOUTUBE_PLAYLIST, { requestedBy: null }, async () => null);
+
+        expect(cached.playlist.title).toBe("Mix");
+        expect(cached.tracks.map((m) => m.title)).toEqual(["A", "B"]);
+        expect(cached.tracks.every((m) => m.playlist === cached.playlist)).toBe(true);
+    });
+
+    it("is disabled with a ttl of 0", async () => {
+        const { entries, backend } = createBackend();
+        const cache = new PlayerCache(player, { backend, ttl: 0 });
+        const search = jest.fn(async () => result());
+
+        await cache.search("query", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+        await cache.search("query", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, search);
+
+        expect(search).toHaveBeenCalledTimes(2);
+        expect(entries.size).toBe(0);
+    });
+
+    it("treats backend failures as misses", async () => {
+        const backend = { ...createBackend().backend, get: () => Promise.reject(new Error("down")), set: () => Promise.reject(new Error("down")) };
+        const cache = new PlayerCache(player, { backend });
+
+        expect((await cache.search("query", QueryType.YOUTUBE_SEARCH, { requestedBy: null }, async () => result())).tracks).toHaveLength(1);
+    });
+});
+
+describe("PlayerCache info", () => {
+    it("serves and deletes the cached video info by video id", async () => {
+        const { entries, backend } = createBackend();
+        const cache = new PlayerCache(player, { backend });
+        await cache.set("info:dQw4w9WgXcQ", { videoDetails: { title: "Cached" } });
+
+        expect((await cache.getInfo("https://www.youtube.com/watch?v=dQw4w9WgXcQ")).videoDetails.title).toBe("Cached");
+
+        await cache.deleteInfo("https://youtu.be/dQw4w9WgXcQ");
+        expect(entries.size).toBe(0);
+    });
+});
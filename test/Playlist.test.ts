@@ -0,0 +1,120 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { Playlist } from "../src/Structures/Playlist";
+import Track from "../src/Structures/Track";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+
+const createPlaylist = (tracks = 0) =>
+    new Playlist(player, {
+        title: "Playlist",
+        description: "",
+        thumbnail: "",
+        type: "playlist",
+        source: "youtube",
+        author: { name: "Author", url: "" },
+        id: "playlist",
+        url: "https://www.youtube.com/playlist?list=playlist",
+        tracks: Array.from({ length: tracks }, (_, i) => createTrack(player, { title: `${i}` }))
+    });
+
+// a loader serving pages of the given sizes, then empty pages
+const createLoader = (pages: number[]) => {
+    let page = 0;
+    let count = 0;
+
+    return jest.fn(async () => {
+        const size = pages[page++] ?? 0;
+        return Array.from({ length: size }, () => createTrack(player, { title: `${count++}` }));
+    });
+};
+
+describe("Playlist.fetchNext", () => {
+    it("resolves nothing once complete", async () => {
+        const playlist = createPlaylist(2);
+
+        expect(playlist.complete).toBe(true);
+        expect(await playlist.fetchNext()).toEqual([]);
+        expect(playlist.totalTracks).toBe(2);
+    });
+
+    it("appends the pages until an empty one", async () => {
+        const playlist = createPlaylist();
+        const loader = createLoader([2, 1]);
+        playlist.setLoader(loader);
+
+        expect(playlist.complete).toBe(false);
+        expect((await playlist.fetchNext()).map((m) => m.title)).toEqual(["0", "1"]);
+        expect(playlist.totalTracks).toBe(2);
+        expect(await playlist.fetchNext()).toHaveLength(1);
+        expect(playlist.complete).toBe(false);
+        expect(await playlist.fetchNext()).toEqual([]);
+        expect(playlist.complete).toBe(true);
+        expect(playlist.tracks.map((m) => m.title)).toEqual(["0", "1", "2"]);
+        expect(loader).toHaveBeenCalledTimes(3);
+    });
+
+    it("completes once the total amount of tracks is reached", async () => {
+        const playlist = createPlaylist(1);
+        const loader = createLoader([2, 2]);
+        playlist.setLoader(loader, 3);
+
+        expect(playlist.totalTracks).toBe(3);
+        await playlist.fetchNext();
+
+        expect(playlist.complete).toBe(true);
+        expect(playlist.totalTracks).toBe(3);
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it("is complete if the first page holds every track", () => {
+        const playlist = createPlaylist(3);
+        playlist.setLoader(createLoader([1]), 3);
+
+        expect(playlist.complete).toBe(true);
+    });
+
+    it("shares the request of concurrent calls", async () => {
+        const playlist = createPlaylist();
+        const loader = createLoader([2]);
+        playlist.setLoader(loader);
+
+        const [a, b] = await Promise.all([playlist.fetchNext(), playlist.fetchNext()]);
+
+        expect(a).toBe(b);
+        expect(playlist.tracks).toHaveLength(2);
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it("can be retried after a failed page", async () => {
+        const playlist = createPlaylist();
+        const loader = jest.fn<Promise<Track[]>, []>().mockRejectedValueOnce(new Error("rate limited")).mockResolvedValue([]);
+        playlist.setLoader(loader);
+
+        await expect(playlist.fetchNext()).rejects.toThrow("rate limited");
+        expect(playlist.complete).toBe(false);
+        expect(await playlist.fetchNext()).toEqual([]);
+        expect(playlist.complete).toBe(true);
+    });
+});
+
+describe("Playlist.load", () => {
+    it("fetches every remaining page", async () => {
+        const playlist = createPlaylist(1);
+        const progress: number[] = [];
+        playlist.setLoader(createLoader([3, 2]));
+
+        expect(await playlist.load((tracks) => progress.push(tracks.length))).toBe(playlist);
+        expect(playlist.complete).toBe(true);
+        expect(playlist.tracks).toHaveLength(6);
+        expect(playlist.totalTracks).toBe(6);
+        expect(progress).toEqual([3, 2, 0]);
+    });
+
+    it("rejects with the error of a page", async () => {
+        const playlist = createPlaylist();
+        playlist.setLoader(() => Promise.reject(new Error("not found")));
+
+        await expect(playlist.load()).rejects.toThrow("not found");
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "@jest/globals";
+import path from "path";
+import { fileURLToPath } from "url";
+import { PlaylistFiles } from "../src/utils/PlaylistFiles";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+const tracks = [
+    createTrack(player, { title: "One & Two", author: "A <B>", url: "https://example.com/1.mp3", duration: "3:05", thumbnail: "https://example.com/1.jpg" }),
+    createTrack(player, { title: "Live", author: "", url: "https://example.com/live", live: true }),
+    createTrack(player, { title: "Local", author: "C", url: path.resolve("/music/local track.mp3"), duration: "0:42" })
+];
+
+describe("PlaylistFiles.parse", () => {
+    it("parses extended M3U", () => {
+        expect(PlaylistFiles.parse("#EXTM3U\n#EXTINF:185,Artist - Title\nhttps://example.com/1.mp3\n\n# comment\nrelative/2.mp3\n")).toEqual([
+            { author: "Artist", title: "Title", duration: 185000, location: "https://example.com/1.mp3" },
+            { location: "relative/2.mp3" }
+        ]);
+    });
+
+    it("parses M3U with a byte order mark and CRLF line endings", () => {
+        expect(PlaylistFiles.parse('\uFEFF#EXTM3U\r\n#EXTINF:-1 tvg-id="x",Radio\r\nhttp://radio/stream\r\n')).toEqual([{ title: "Radio", duration: undefined, location: "http://radio/stream" }]);
+    });
+
+    it("parses PLS in index order", () => {
+        const content = "[playlist]\nFile2=b.mp3\nTitle2=Second\nFile1=a.mp3\nTitle1=Artist - First\nLength1=60\nLength2=-1\nTitle3=No file\nNumberOfEntries=3\n";
+
+        expect(PlaylistFiles.detectFormat(content)).toBe("pls");
+        expect(PlaylistFiles.parse(content)).toEqual([
+            { location: "a.mp3", author: "Artist", title: "First", duration: 60000 },
+            { location: "b.mp3", title: "Second" }
+        ]);
+    });
+
+    it("parses XSPF", () => {
+        const content = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+            "  <title>Mix &amp; Match</title>",
+            "  <trackList>",
+            "    <track><location>file:///music/a.mp3</location><title><![CDATA[A & B]]></title><creator>&#233;mile</creator><duration>1000</duration></track>",
+            "    <track><title>Only a title</title></track>",
+            "    <track><annotation>Nothing</annotation></track>",
+            "  </trackList>",
+            "</playlist>"
+        ].join("\n");
+
+        expect(PlaylistFiles.detectFormat(content)).toBe("xspf");
+        expect(PlaylistFiles.getTitle(content)).toBe("Mix & Match");
+        expect(PlaylistFiles.parse(content)).toEqual([
+            { location: "file:///music/a.mp3", title: "A & B", author: "émile", duration: 1000, thumbnail: undefined },
+            { location: undefined, title: "Only a title", author: undefined, duration: undefined, thumbnail: undefined }
+        ]);
+    });
+
+    it("reads the M3U playlist title", () => {
+        expect(PlaylistFiles.getTitle("#EXTM3U\n#PLAYLIST: Road trip\na.mp3")).toBe("Road trip");
+        expect(PlaylistFiles.getTitle("a.mp3")).toBeNull();
+    });
+
+    it("detects HLS media playlists", () => {
+        expect(PlaylistFiles.isHLS("#EXTM3U\n#EXT-X-TARGETDURATION:10\nsegment.ts")).toBe(true);
+        expect(PlaylistFiles.isHLS("#EXTM3U\n#EXTINF:10,Title\na.mp3")).toBe(false);
+    });
+});
+
+describe("PlaylistFiles.resolveLocation", () => {
+    it("resolves relative locations against urls", () => {
+        expect(PlaylistFiles.resolveLocation({ location: "../b/2.mp3" }, "https://example.com/a/list.m3u").location).toBe("https://example.com/b/2.mp3");
+    });
+
+    it("resolves relative locations against paths", () => {
+        expect(PlaylistFiles.resolveLocation({ location: "sub/2.mp3" }, path.resolve("/music/list.m3u")).location).toBe(path.resolve("/music/sub/2.mp3"));
+    });
+
+    it("keeps absolute locations", () => {
+        for (const location of ["https://example.com/1.mp3", "file:///music/1.mp3", path.resolve("/music/1.mp3")]) {
+            expect(PlaylistFiles.resolveLocation({ location }, "https://example.com/list.m3u").location).toBe(location);
+        }
+    });
+});
+
+describe("PlaylistFiles.export", () => {
+    it.each(["m3u", "pls", "xspf"] as const)("round-trips %s", (format) => {
+        const content = PlaylistFiles.export(tracks, format, "Queue");
+        const entries = PlaylistFiles.parse(content);
+
+        expect(PlaylistFiles.detectFormat(content)).toBe(format);
+        expect(entries.map((m) => (m.location.startsWith("file://") ? fileURLToPath(m.location) : m.location))).toEqual(tracks.map((m) => m.url));
+        expect(entries.map((m) => m.title)).toEqual(tracks.map((m) => m.title));
+        expect(entries.map((m) => m.author ?? "")).toEqual(tracks.map((m) => m.author));
+        expect(entries.map((m) => m.duration)).toEqual([185000, undefined, 42000]);
+    });
+
+    it("writes the title of XSPF playlists", () => {
+        expect(PlaylistFiles.getTitle(PlaylistFiles.export(tracks, "xspf", "Q & A"))).toBe("Q & A");
+    });
+
+    it("rejects unknown formats", () => {
+        expect(() => PlaylistFiles.export(tracks, "wpl" as never)).toThrow('Unknown playlist format "wpl"');
+    });
+});
+
+describe("PlaylistFiles.createTrack", () => {
+    it("creates unresolved tracks named after their location", () => {
+        const track = PlaylistFiles.createTrack(player, { location: "https://example.com/My%20Song.mp3?token=1", duration: 61000 });
+
+        expect(track.title).toBe("My Song");
+        expect(track.duration).toBe("01:01");
+        expect(PlaylistFiles.isUnresolved(track)).toBe(true);
+        expect(PlaylistFiles.isUnresolved(tracks[0])).toBe(false);
+    });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "@jest/globals";
+import { QueryType } from "../src/types/types";
+import { QueryResolver } from "../src/utils/QueryResolver";
+
+describe("QueryResolver.resolve", () => {
+    it("resolves paths and file urls to local files", () => {
+        expect(QueryResolver.resolve("/music/song.mp3")).toBe(QueryType.LOCAL);
+        expect(QueryResolver.resolve("file:///music/album")).toBe(QueryType.LOCAL);
+        expect(QueryResolver.resolve("/music/mix.m3u")).toBe(QueryType.PLAYLIST_FILE);
+    });
+
+    it("searches paths on YouTube without local files", () => {
+        expect(QueryResolver.resolve("/help", false)).toBe(QueryType.YOUTUBE_SEARCH);
+        expect(QueryResolver.resolve("/music/mix.m3u", false)).toBe(QueryType.YOUTUBE_SEARCH);
+        expect(QueryResolver.resolve("https://example.com/mix.m3u", false)).toBe(QueryType.PLAYLIST_FILE);
+    });
+});
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { VoiceConnectionStatus } from "@discordjs/voice";
+import { Guild } from "discord.js";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import { Player } from "../src/Player";
+import { Queue } from "../src/Structures/Queue";
+import Track from "../src/Structures/Track";
+import { StreamDispatcher } from "../src/VoiceInterface/StreamDispatcher";
+import { BridgeCandidate, PlayerOptions, RawTrackData } from "../src/types/types";
+import { createPlayer, createTrack } from "./utils";
+
+// FFmpeg is not spawned, the PCM stream is the source stream itself
+jest.mock("discord-ytdl-core", () => ({ __esModule: true, default: { arbitraryStream: (stream: unknown) => stream } }));
+
+// stands for the audio player, the tests deciding when the playback stops
+class FakeDispatcher extends EventEmitter {
+    public voiceConnection = { state: { status: VoiceConnectionStatus.Ready } };
+    public audioResource: { metadata: Track; stream: PassThrough } = null;
+    public streamTime = 0;
+    public paused = false;
+
+    createStream(stream: PassThrough, options: { data: Track }) {
+        this.audioResource = { metadata: options.data, stream };
+        this.streamTime = 0;
+        return this.audioResource;
+    }
+
+    playStream(resource = this.audioResource) {
+        this.audioResource = resource;
+        this.emit("start", resource);
+    }
+
+    stop(elapsed: number) {
+        const resource = this.audioResource;
+        this.streamTime = elapsed;
+        this.audioResource = null;
+        this.emit("finish", resource);
+    }
+
+    setVolume() {
+        return true;
+    }
+
+    end() {
+        if (this.audioResource) this.stop(this.streamTime);
+    }
+
+    disconnect() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+const once = (emitter: EventEmitter, event: string) => new Promise<unknown[]>((resolve) => emitter.once(event, (...args: unknown[]) => resolve(args)));
+
+const setup = async (options: PlayerOptions = {}) => {
+    const player = createPlayer();
+    const dispatcher = new FakeDispatcher();
+    jest.spyOn(player.client.guilds, "resolve").mockReturnValue({ id: "1", channels: { resolve: () => ({ type: "GUILD_VOICE" }) } } as unknown as Guild);
+    jest.spyOn(player.voiceUtils, "connect").mockResolvedValue(dispatcher as unknown as StreamDispatcher);
+    const deleteInfo = jest.spyOn(player.cache, "deleteInfo").mockResolvedValue();
+    const search = jest.spyOn(player.bridge, "search").mockResolvedValue([]);
+
+    const queue = player.createQueue("1", { bufferingTimeout: 0, maxRetries: 2, ...options });
+    const streams: PassThrough[] = [];
+    queue.createStream = jest.fn(() => {
+        const stream = new PassThrough();
+        streams.push(stream);
+        return stream;
+    });
+    await queue.connect("2");
+
+    const events = { retry: jest.fn(), failed: jest.fn(), start: jest.fn(), end: jest.fn(), error: jest.fn() };
+    player.on("trackRetry", events.retry);
+    player.on("trackFailed", events.failed);
+    player.on("trackStart", events.start);
+    player.on("trackEnd", events.end);
+    player.on("error", events.error);
+
+    return { player, dispatcher, queue, streams, events, deleteInfo, search };
+};
+
+// plays a track, resolving once the audio player started it
+const play = async (queue: Queue, dispatcher: FakeDispatcher, data: Partial<RawTrackData> = {}) => {
+    const track = createTrack(queue.player as Player, data);
+    const started = once(dispatcher, "start");
+    await queue.play(track);
+    await started;
+    return track;
+};
+
+describe("Queue recovery", () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it("resumes a failed track where it stopped from a fresh source", async () => {
+        const { dispatcher, queue, streams, events, deleteInfo } = await setup();
+        const track = await play(queue, dispatcher);
+
+        const error = new Error("socket hang up");
+        streams[0].emit("error", error);
+        const resumed = once(dispatcher, "start");
+        dispatcher.stop(30000);
+        await resumed;
+
+        expect(events.retry).toHaveBeenCalledWith(queue, track, error, 1);
+        expect(deleteInfo).toHaveBeenCalledWith(track.url);
+        expect(streams).toHaveLength(2);
+        expect(queue.streamTime).toBe(30000);
+        expect(events.start).toHaveBeenCalledTimes(1);
+        expect(events.end).not.toHaveBeenCalled();
+        queue.destroy();
+    });
+
+    it("resumes the streams stopping before their end without an error", async () => {
+        const { dispatcher, queue, events } = await setup();
+        const track = await play(queue, dispatcher);
+
+        const resumed = once(dispatcher, "start");
+        dispatcher.stop(60000);
+        await resumed;
+
+        expect(events.retry).toHaveBeenCalledWith(queue, track, expect.objectContaining({ message: expect.stringContaining(`The stream of "${track.title}" stopped at 01:00`) }), 1);
+        queue.destroy();
+    });
+
+    it("reports the stream errors before the playback starts, and resumes the track once it stops", async () => {
+        const { dispatcher, queue, streams, events } = await setup();
+        const track = createTrack(queue.player as Player);
+        void queue.play(track);
+        await new Promise(setImmediate);
+
+        const error = new Error("403 Forbidden");
+        streams[0].emit("error", error);
+        expect(events.error).toHaveBeenCalledWith(queue, error);
+
+        await once(dispatcher, "start");
+        const resumed = once(dispatcher, "start");
+        dispatcher.stop(0);
+        await resumed;
+
+        expect(events.retry).toHaveBeenCalledWith(queue, track, expect.objectContaining({ message: expect.stringContaining(`The stream of "${track.title}" stopped at 0:00`) }), 1);
+        queue.destroy();
+    });
+
+    it("plays the last attempt from another source", async () => {
+        const { dispatcher, queue, events, search } = await setup({ maxRetries: 1 });
+        const alternate: BridgeCandidate = { title: "Title", author: "Author", url: "https://www.youtube.com/watch?v=alternate", duration: 180000, source: "youtube", score: 1 };
+        search.mockResolvedValue([{ ...alternate, url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" }, alternate]);
+        const onDebug = jest.fn();
+        queue.player.on("debug", onDebug);
+        const track = await play(queue, dispatcher);
+
+        const resumed = once(dispatcher, "start");
+        dispatcher.stop(10000);
+        await resumed;
+
+        expect(events.retry).toHaveBeenCalledWith(queue, track, expect.any(Error), 1);
+        expect(onDebug).toHaveBeenCalledWith(queue, `Resuming "${track.title}" at 10000ms from ${alternate.url} (1/1)`);
+        expect(queue.createStream).toHaveBeenLastCalledWith(track, "youtube", queue);
+        queue.destroy();
+    });
+
+    it("gives up once the retries ran out", async () => {
+        const { dispatcher, queue, streams, events } = await setup({ maxRetries: 1 });
+        const track = await play(queue, dispatcher);
+
+        const resumed = once(dispatcher, "start");
+        dispatcher.stop(10000);
+        await resumed;
+
+        const error = new Error("socket hang up");
+        streams[1].emit("error", error);
+        const ended = once(queue.player, "queueEnd");
+        dispatcher.stop(5000);
+        await ended;
+
+        expect(events.retry).toHaveBeenCalledTimes(1);
+        expect(events.failed).toHaveBeenCalledWith(queue, track, error);
+        expect(events.end).toHaveBeenCalledWith(queue, track);
+    });
+
+    it("does not retry without retries", async () => {
+        const { dispatcher, queue, events } = await setup({ maxRetries: 0 });
+        const track = await play(queue, dispatcher);
+
+        const ended = once(queue.player, "queueEnd");
+        dispatcher.stop(10000);
+        await ended;
+
+        expect(events.retry).not.toHaveBeenCalled();
+        expect(events.failed).toHaveBeenCalledWith(queue, track, expect.any(Error));
+    });
+
+    it("ends the tracks reaching their end and the live streams ending cleanly", async () => {
+        const { dispatcher, queue, events } = await setup({ leaveOnEnd: false });
+        const track = await play(queue, dispatcher);
+
+        let ended = once(queue.player, "trackEnd");
+        dispatcher.stop(177000);
+        await ended;
+
+        const live = await play(queue, dispatcher, { live: true, duration: "0:00" });
+        ended = once(queue.player, "trackEnd");
+        dispatcher.stop(10000);
+        await ended;
+
+        expect(events.end.mock.calls).toEqual([
+            [queue, track],
+            [queue, live]
+        ]);
+        expect(events.retry).not.toHaveBeenCalled();
+        expect(events.failed).not.toHaveBeenCalled();
+        queue.destroy();
+    });
+});
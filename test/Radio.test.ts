@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import { Radio } from "../src/utils/Radio";
+import { IcyDemuxer } from "../src/VoiceInterface/IcyDemuxer";
+
+// a metadata block, padded to 16 bytes units and prefixed by its length byte
+const icyBlock = (content: string) => {
+    const data = Buffer.from(content, "utf8");
+    const length = Math.ceil(data.length / 16);
+    return Buffer.concat([Buffer.from([length]), data, Buffer.alloc(length * 16 - data.length)]);
+};
+
+describe("Radio.parseMetadata", () => {
+    it("parses the keys of a block", () => {
+        expect(Radio.parseMetadata("StreamTitle='Artist - Title';StreamUrl='https://example.com/';")).toEqual({
+            StreamTitle: "Artist - Title",
+            StreamUrl: "https://example.com/"
+        });
+    });
+
+    it("ignores the padding", () => {
+        expect(Radio.parseMetadata("StreamTitle='Song';\0\0\0\0")).toEqual({ StreamTitle: "Song" });
+    });
+
+    it("keeps unescaped quotes and semicolons in values", () => {
+        expect(Radio.parseMetadata("StreamTitle='Guns N' Roses - Sweet Child O' Mine; Live';StreamUrl='';")).toEqual({
+            StreamTitle: "Guns N' Roses - Sweet Child O' Mine; Live",
+            StreamUrl: ""
+        });
+    });
+
+    it("returns no keys for empty blocks", () => {
+        expect(Radio.parseMetadata("")).toEqual({});
+        expect(Radio.parseMetadata("\0\0")).toEqual({});
+    });
+});
+
+describe("Radio.parseStreamTitle", () => {
+    it("splits the artist and the title", () => {
+        expect(Radio.parseStreamTitle("Daft Punk - One More Time")).toEqual({ author: "Daft Punk", title: "One More Time" });
+        expect(Radio.parseStreamTitle("A - B - C")).toEqual({ author: "A", title: "B - C" });
+    });
+
+    it("keeps titles without an artist", () => {
+        expect(Radio.parseStreamTitle(" Station jingle ")).toEqual({ author: null, title: "Station jingle" });
+    });
+});
+
+describe("Radio.parsePlaylist", () => {
+    it("parses the stream urls of M3U playlists", () => {
+        expect(Radio.parsePlaylist("#EXTM3U\r\n#EXTINF:-1,Station\r\nhttp://a/stream\r\n\r\nhttp://b/stream")).toEqual(["http://a/stream", "http://b/stream"]);
+    });
+
+    it("parses the stream urls of PLS playlists", () => {
+        expect(Radio.parsePlaylist("[playlist]\nFile1=http://a/stream\nTitle1=Station\nFile2= http://b/stream\nNumberOfEntries=2")).toEqual(["http://a/stream", "http://b/stream"]);
+    });
+});
+
+describe("IcyDemuxer", () => {
+    it("removes the metadata blocks from the audio", async () => {
+        const demuxer = new IcyDemuxer(4);
+        const audio: Buffer[] = [];
+        const metadata: Record<string, string>[] = [];
+        demuxer.on("data", (chunk: Buffer) => audio.push(chunk));
+        demuxer.on("metadata", (data: Record<string, string>) => metadata.push(data));
+
+        const stream = Buffer.concat([Buffer.from([1, 2, 3, 4]), icyBlock("StreamTitle='A - B';"), Buffer.from([5, 6, 7, 8]), Buffer.from([0]), Buffer.from([9, 10])]);
+        // split everywhere, blocks may span several chunks
+        for (let i = 0; i < stream.length; i += 3) demuxer.write(stream.subarray(i, i + 3));
+        await new Promise((resolve) => demuxer.end(resolve));
+
+        expect([...Buffer.concat(audio)]).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        expect(metadata).toEqual([{ StreamTitle: "A - B" }]);
+    });
+});
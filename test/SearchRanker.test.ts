@@ -0,0 +1,125 @@
+import { describe, expect, it } from "@jest/globals";
+import { SearchRanker } from "../src/utils/SearchRanker";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+
+// an extractor searching a fixed list of results
+const createExtractor = (results: { title: string; author: string; url: string; duration?: number }[], delay = 0) => ({
+    validate: () => false,
+    getInfo: async () => null as unknown,
+    search: async () => {
+        if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+        return { playlist: null as unknown, info: results.map((m) => ({ duration: 200000, thumbnail: "", views: 0, description: "", ...m })) };
+    }
+});
+
+describe("SearchRanker.isDuplicate", () => {
+    it("matches the same url", () => {
+        expect(SearchRanker.isDuplicate(createTrack(player, { title: "A" }), createTrack(player, { title: "B" }))).toBe(true);
+    });
+
+    it("matches the same words with the same duration", () => {
+        const a = createTrack(player, { title: "Blinding Lights (Official Video)", author: "The Weeknd", url: "https://www.youtube.com/watch?v=4NRXx6U8ABQ", duration: "3:20" });
+        const b = createTrack(player, { title: "The Weeknd - Blinding Lights", author: "TheWeekndVEVO", url: "https://soundcloud.com/theweeknd/blinding-lights", duration: "3:22" });
+        const c = createTrack(player, { title: "Blinding Lights", author: "The Weeknd", url: "https://soundcloud.com/theweeknd/blinding-lights", duration: "3:22" });
+
+        expect(SearchRanker.isDuplicate(a, c)).toBe(true);
+        // "theweekndvevo" is a single word
+        expect(SearchRanker.isDuplicate(a, createTrack(player, { ...b, url: "https://example.com" }))).toBe(false);
+    });
+
+    it("tells different durations apart", () => {
+        const a = createTrack(player, { title: "Song", author: "Artist", url: "https://example.com/a", duration: "3:20" });
+        const b = createTrack(player, { title: "Song", author: "Artist", url: "https://example.com/b", duration: "6:40" });
+
+        expect(SearchRanker.isDuplicate(a, b)).toBe(false);
+        // unknown durations match
+        expect(SearchRanker.isDuplicate(a, createTrack(player, { title: "Song", author: "Artist", url: "https://example.com/c", duration: "0:00" }))).toBe(true);
+    });
+
+    it("does not match tracks without words", () => {
+        const a = createTrack(player, { title: "Official Video", author: "", url: "https://example.com/a" });
+        const b = createTrack(player, { title: "HD", author: "", url: "https://example.com/b" });
+
+        expect(SearchRanker.isDuplicate(a, b)).toBe(false);
+    });
+});
+
+describe("SearchRanker.dedupe", () => {
+    it("keeps the first of the near-identical results", () => {
+        const tracks = [
+            createTrack(player, { title: "Song", author: "Artist", url: "https://example.com/1" }),
+            createTrack(player, { title: "Other", author: "Artist", url: "https://example.com/2" }),
+            createTrack(player, { title: "Song (Official Audio)", author: "Artist", url: "https://example.com/3" }),
+            createTrack(player, { title: "Third", author: "Artist", url: "https://example.com/2" })
+        ];
+
+        expect(SearchRanker.dedupe(tracks)).toEqual([tracks[0], tracks[1]]);
+    });
+});
+
+describe("SearchRanker.score", () => {
+    it("favors relevant results", () => {
+        const relevant = createTrack(player, { title: "Blinding Lights", author: "The Weeknd" });
+        const partial = createTrack(player, { title: "Blinding Lights", author: "Cover Band" });
+
+        expect(SearchRanker.score(relevant, "the weeknd blinding lights", 3)).toBeGreaterThan(SearchRanker.score(partial, "the weeknd blinding lights", 0));
+    });
+
+    it("breaks ties with the rank of the engine", () => {
+        const track = createTrack(player, { title: "Song", author: "Artist" });
+
+        expect(SearchRanker.score(track, "song", 0)).toBe(1);
+        expect(SearchRanker.score(track, "song", 0)).toBeGreaterThan(SearchRanker.score(track, "song", 1));
+        expect(SearchRanker.score(track, "", 0)).toBeCloseTo(0.3);
+    });
+});
+
+describe("aggregated search", () => {
+    const aggregated = createPlayer();
+    aggregated.use(
+        "first",
+        createExtractor([
+            { title: "Unrelated", author: "Someone", url: "https://first/1" },
+            { title: "Blinding Lights", author: "The Weeknd", url: "https://first/2" }
+        ])
+    );
+    aggregated.use(
+        "second",
+        createExtractor([
+            { title: "Blinding Lights (Official Audio)", author: "The Weeknd", url: "https://second/1" },
+            { title: "Blinding Lights Cover", author: "Someone", url: "https://second/2" }
+        ])
+    );
+    aggregated.use("slow", createExtractor([{ title: "Blinding Lights", author: "The Weeknd", url: "https://slow/1" }], 1000));
+
+    it("merges, ranks and dedupes the results of the engines", async () => {
+        const { tracks } = await aggregated.search("the weeknd blinding lights", { requestedBy: null, searchEngine: ["first", "second"] });
+
+        expect(tracks.map((m) => m.url)).toEqual(["https://second/1", "https://second/2", "https://first/1"]);
+        expect(tracks.map((m) => m.searchEngine)).toEqual(["second", "second", "first"]);
+    });
+
+    it("uses the given scorer", async () => {
+        const { tracks } = await aggregated.search("blinding lights", { requestedBy: null, searchEngine: ["first", "second"], scorer: (track) => (track.url.endsWith("/2") ? 1 : 0) });
+
+        expect(tracks.map((m) => m.url)).toEqual(["https://first/2", "https://second/2", "https://first/1"]);
+    });
+
+    it("gives up slow engines", async () => {
+        const { tracks } = await aggregated.search("blinding lights", { requestedBy: null, searchEngine: ["slow", "second"], engineTimeout: 100 });
+
+        expect(tracks.map((m) => m.searchEngine)).toEqual(["second", "second"]);
+    });
+
+    it("applies the offset and the limit after deduplication", async () => {
+        const { tracks } = await aggregated.search("the weeknd blinding lights", { requestedBy: null, searchEngine: ["first", "second"], offset: 1, limit: 1 });
+
+        expect(tracks.map((m) => m.url)).toEqual(["https://second/2"]);
+    });
+
+    it("rejects unknown engines", async () => {
+        await expect(aggregated.search("query", { requestedBy: null, searchEngine: ["unknown"] })).rejects.toThrow('Unknown search engine "unknown"');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals";
+import Track from "../src/Structures/Track";
+import { Playlist } from "../src/Structures/Playlist";
+import { LocalFiles } from "../src/utils/LocalFiles";
+import { Radio } from "../src/utils/Radio";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+const roundTrip = (track: Track) => Track.fromJSON(player, JSON.parse(JSON.stringify(track.toJSON())));
+
+describe("Track JSON", () => {
+    it("keeps the radio stations", () => {
+        const station = { url: "https://radio.example.com/live", name: "Radio", description: "", genre: "Jazz", homepage: "https://radio.example.com", bitrate: 128, contentType: "audio/mpeg" };
+        const track = roundTrip(Radio.createTrack(player, station));
+
+        expect(track.source).toBe("radio");
+        expect(track.live).toBe(true);
+        expect(track.raw).toMatchObject(station);
+    });
+
+    it("keeps the local file info without its picture data", () => {
+        const info = { path: "/music/song.mp3", title: "Song", artist: "Artist", album: "Album", trackNumber: 2, duration: 61000, picture: { format: "image/png", data: Buffer.from("png") } };
+        const track = roundTrip(LocalFiles.createTrack(player, info));
+
+        expect(track.source).toBe("local");
+        expect(track.raw).toMatchObject({ path: "/music/song.mp3", album: "Album", trackNumber: 2 });
+        expect(track.raw).not.toHaveProperty("picture.data");
+    });
+
+    it("keeps the data of the extractors without their engine", () => {
+        const track = roundTrip(
+            new Track(player, {
+                ...createTrack(player).toJSON(),
+                requestedBy: null,
+                source: "arbitrary",
+                extractor: "custom",
+                engine: (): string => null,
+                raw: undefined,
+                playlist: new Playlist(player, { title: "", description: "", thumbnail: "", type: "playlist", source: "arbitrary", author: { name: "", url: "" }, tracks: [], id: "1", url: "" })
+            } as ConstructorParameters<typeof Track>[1])
+        );
+
+        expect(track.raw).toMatchObject({ source: "arbitrary", extractor: "custom", title: "Title" });
+        expect(track.raw.engine).toBeUndefined();
+        expect(track.raw.playlist).toBeUndefined();
+    });
+
+    it("does not keep the YouTube library data", () => {
+        const track = createTrack(player, { raw: { id: "dQw4w9WgXcQ", source: "youtube" } });
+
+        expect(track.toJSON().raw).toBeUndefined();
+        expect(roundTrip(track).raw).toMatchObject({ source: "youtube" });
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { TrackBridge } from "../src/Structures/TrackBridge";
+import { BridgeCandidate } from "../src/types/types";
+import { createPlayer, createTrack } from "./utils";
+
+const player = createPlayer();
+const track = createTrack(player, { title: "Blinding Lights", author: "The Weeknd", duration: "3:20", url: "https://open.spotify.com/track/0VjIjW4GlUZAMYd2vXMi3b", source: "spotify" });
+
+const candidate = (data: Partial<BridgeCandidate>): BridgeCandidate => ({
+    title: "The Weeknd - Blinding Lights",
+    author: "TheWeekndVEVO",
+    url: "https://www.youtube.com/watch?v=4NRXx6U8ABQ",
+    duration: 200000,
+    source: "youtube",
+    ...data
+});
+
+const rank = (candidates: BridgeCandidate[]) => candidates.map((m) => ({ ...m, score: TrackBridge.score(track, m) })).sort((a, b) => b.score - a.score);
+
+describe("TrackBridge.score", () => {
+    it("scores between 0 and 1", () => {
+        const scores = [candidate({}), candidate({ title: "Unrelated", author: "Someone", duration: 1000 }), candidate({ title: "Blinding Lights cover karaoke instrumental lyrics" })].map((m) =>
+            TrackBridge.score(track, m)
+        );
+
+        for (const score of scores) {
+            expect(score).toBeGreaterThanOrEqual(0);
+            expect(score).toBeLessThanOrEqual(1);
+        }
+        expect(scores[1]).toBe(0);
+    });
+
+    it("prefers the topic channel upload", () => {
+        const [best] = rank([
+            candidate({ title: "Blinding Lights (Official Video)", author: "TheWeekndVEVO", duration: 262000 }),
+            candidate({ title: "Blinding Lights", author: "The Weeknd - Topic", duration: 201000 })
+        ]);
+
+        expect(best.author).toBe("The Weeknd - Topic");
+        expect(best.score).toBeGreaterThan(0.9);
+    });
+
+    it("penalizes alternative versions", () => {
+        const [best, ...others] = rank([
+            candidate({ title: "The Weeknd - Blinding Lights (Slowed + Reverb)" }),
+            candidate({ title: "The Weeknd - Blinding Lights (Lyrics)", author: "Lyrics Channel" }),
+            candidate({})
+        ]);
+
+        expect(best.title).toBe("The Weeknd - Blinding Lights");
+        for (const other of others) expect(other.score).toBeLessThan(best.score - 0.25);
+    });
+
+    it("does not penalize the words of the track itself", () => {
+        const live = createTrack(player, { title: "Blinding Lights - Live", author: "The Weeknd", duration: "3:20" });
+
+        expect(TrackBridge.score(live, candidate({ title: "The Weeknd - Blinding Lights (Live)" }))).toBeGreaterThan(
+            TrackBridge.score(track, candidate({ title: "The Weeknd - Blinding Lights (Live)" }))
+        );
+    });
+
+    it("scores other songs of the artist low", () => {
+        expect(TrackBridge.score(track, candidate({ title: "The Weeknd - Save Your Tears" }))).toBeLessThan(0.4);
+    });
+
+    it("tolerates small duration deltas", () => {
+        expect(TrackBridge.score(track, candidate({ duration: 202500 }))).toBe(TrackBridge.score(track, candidate({})));
+        expect(TrackBridge.score(track, candidate({ duration: 230000 }))).toBeLessThan(TrackBridge.score(track, candidate({})));
+    });
+
+    it("ignores accents and letter case", () => {
+        const accented = createTrack(player, { title: "Déjà Vu", author: "Beyoncé", duration: "4:00" });
+
+        expect(TrackBridge.score(accented, candidate({ title: "BEYONCE - DEJA VU", author: "Beyonce - Topic", duration: 240000 }))).toBeGreaterThan(0.9);
+    });
+});
+
+describe("TrackBridge.resolve", () => {
+    it("caches the best match above the minimum score", async () => {
+        const bridge = new TrackBridge(player);
+        const candidates = rank([candidate({ title: "Other song", author: "Someone" }), candidate({})]);
+        const search = jest.spyOn(bridge, "search").mockResolvedValue(candidates);
+
+        const [a, b] = await Promise.all([bridge.resolve(track), bridge.resolve(track)]);
+
+        expect(a).toBe(candidates[0]);
+        expect(b).toBe(a);
+        expect(await bridge.resolve(track)).toBe(a);
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(bridge.cache.get(`youtube:${track.url}:${track.author}:${track.title}`)).toBe(a);
+    });
+
+    it("resolves null below the minimum score", async () => {
+        const bridge = new TrackBridge(player, { minScore: 1 });
+        jest.spyOn(bridge, "search").mockResolvedValue(rank([candidate({ title: "Blinding Lights (Lyrics)" })]));
+
+        expect(await bridge.resolve(track)).toBeNull();
+        expect(bridge.cache.size).toBe(0);
+    });
+
+    it("lets the match option choose", async () => {
+        const candidates = rank([candidate({}), candidate({ title: "Other song" })]);
+        const bridge = new TrackBridge(player, { match: (_, list) => list[1] });
+        jest.spyOn(bridge, "search").mockResolvedValue(candidates);
+
+        expect(await bridge.resolve(track)).toBe(candidates[1]);
+    });
+
+    it("tells apart the tracks sharing the url of their playlist", async () => {
+        const bridge = new TrackBridge(player);
+        const url = "https://music.apple.com/us/playlist/mix/pl.u-1";
+        const tracks = ["First", "Second"].map((title) => createTrack(player, { title, url, source: "apple_music" }));
+        bridge.setMatch(tracks[0], candidate({ title: "First" }));
+        const search = jest.spyOn(bridge, "search").mockResolvedValue([{ ...candidate({ title: "Author - Second" }), score: 1 }]);
+
+        expect((await bridge.resolve(tracks[1]))?.title).toBe("Author - Second");
+        expect(search).toHaveBeenCalledWith(tracks[1]);
+        expect(bridge.cache.size).toBe(2);
+    });
+
+    it("evicts the least recently used matches", () => {
+        const bridge = new TrackBridge(player, { cacheSize: 2 });
+        const tracks = ["a", "b", "c"].map((m) => createTrack(player, { url: `https://open.spotify.com/track/${m}` }));
+
+        bridge.setMatch(tracks[0], candidate({}));
+        bridge.setMatch(tracks[1], candidate({}));
+        bridge.setMatch(tracks[0], candidate({}));
+        bridge.setMatch(tracks[2], candidate({}));
+
+        expect([...bridge.cache.keys()]).toEqual(["youtube:https://open.spotify.com/track/a:Author:Title", "youtube:https://open.spotify.com/track/c:Author:Title"]);
+    });
+});
@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import http from "http";
+import { AddressInfo, Socket } from "net";
+import { Util } from "../src/utils/Util";
+
+describe("Util.request", () => {
+    const server = http.createServer((req, res) => {
+        if (req.url === "/redirect") return void res.writeHead(302, { location: "/stream" }).end();
+        if (req.url === "/missing") return void res.writeHead(404).end();
+        // a stream which never ends
+        res.writeHead(200, { "content-type": "audio/mpeg" });
+        res.write("audio");
+    });
+    const sockets = new Set<Socket>();
+    server.on("connection", (socket) => sockets.add(socket));
+    let base: string;
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)).then(() => (base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+    afterAll(() => {
+        for (const socket of sockets) socket.destroy();
+        return new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it("follows redirects", async () => {
+        const res = await Util.request(`${base}/redirect`);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers["content-type"]).toBe("audio/mpeg");
+        res.destroy();
+    });
+
+    it("rejects unsuccessful responses", async () => {
+        await expect(Util.request(`${base}/missing`)).rejects.toThrow("failed with status 404");
+    });
+
+    it("stops the timeout once the response arrives", async () => {
+        const res = await Util.request(`${base}/stream`);
+
+        // paused streams must not time out
+        expect((res.socket as Socket & { timeout?: number }).timeout ?? 0).toBe(0);
+        res.destroy();
+    });
+});
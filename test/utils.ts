@@ -0,0 +1,60 @@
+import { jest } from "@jest/globals";
+import { Client, Intents } from "discord.js";
+import { readFileSync } from "fs";
+import { IncomingMessage } from "http";
+import path from "path";
+import { Player } from "../src/Player";
+import Track from "../src/Structures/Track";
+import { RawTrackData } from "../src/types/types";
+import { Util } from "../src/utils/Util";
+
+/**
+ * Creates a player whose client never logs in
+ * @param {PlayerInitOptions} [options={}] The player init options
+ * @returns {Player}
+ */
+export const createPlayer = (options: ConstructorParameters<typeof Player>[1] = {}) => {
+    const client = new Client({ intents: [Intents.FLAGS.GUILDS, Intents.FLAGS.GUILD_VOICE_STATES] });
+    return new Player(client, { autoRegisterExtractor: false, ...options });
+};
+
+/**
+ * Creates a track with placeholder data
+ * @param {Player} player The player
+ * @param {Partial<RawTrackData>} [data={}] The track data
+ * @returns {Track}
+ */
+export const createTrack = (player: Player, data: Partial<RawTrackData> = {}) =>
+    new Track(player, {
+        title: "Title",
+        description: "",
+        author: "Author",
+        url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+        thumbnail: "",
+        duration: "3:00",
+        views: 0,
+        requestedBy: null,
+        source: "youtube",
+        ...data
+    });
+
+/**
+ * Reads a file of the fixtures directory
+ * @param {string} name The file path, relative to the fixtures directory
+ * @returns {string}
+ */
+export const readFixture = (name: string) => readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+
+/**
+ * Serves the requests of `Util.request` from fixtures, rejecting the unknown urls
+ * @param {Record<string, string>} fixtures The fixture file of each url
+ * @returns {jest.SpiedFunction<typeof Util.request>} The request spy, to be restored by the test
+ */
+export const mockRequests = (fixtures: Record<string, string>) => {
+    jest.spyOn(Util, "readBody").mockImplementation(async (res) => readFixture(fixtures[(res as unknown as { url: string }).url]));
+
+    return jest.spyOn(Util, "request").mockImplementation(async (url) => {
+        if (!fixtures[url]) throw new Error(`Unexpected request to ${url}`);
+        return { url } as unknown as IncomingMessage;
+    });
+};